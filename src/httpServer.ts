@@ -2,6 +2,7 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import { randomUUID } from "node:crypto";
 import { FastMCPSession } from "fastmcp";
 import http from "http";
+import { createSessionRegistry } from "./utils/session-registry.js";
 
 async function main<T extends FastMCPSession>(args: {
   port: number;
@@ -23,20 +24,27 @@ async function main<T extends FastMCPSession>(args: {
     onUnhandledRequest,
   } = args;
 
-  const activeSessions: Record<
-    string,
-    {
-      fastMCPSession: T;
-      serverTransport: StreamableHTTPServerTransport;
-    }
-  > = {};
+  // 空闲 30 分钟的 session 会被关闭，最多同时存在 100 个 session
+  const activeSessions = createSessionRegistry<{
+    fastMCPSession: T;
+    serverTransport: StreamableHTTPServerTransport;
+  }>({
+    idleTtlMs: 30 * 60 * 1000,
+    maxSessions: 100,
+    sweepIntervalMs: 60 * 1000,
+    close: async ({ serverTransport }) => {
+      await serverTransport.close();
+    },
+  });
 
   const httpServer = http.createServer(async (req, res) => {
     const path = new URL(req.url!, "http://localhost").pathname;
 
     if (path === "/health" && req.method === "GET") {
-      res.writeHead(200, { "Content-Type": "text/plain" });
-      res.end("healthy");
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({ status: "healthy", sessions: activeSessions.stats() })
+      );
       return;
     }
 
@@ -58,7 +66,7 @@ async function main<T extends FastMCPSession>(args: {
       }
 
       if (sessionId) {
-        const activeSession = activeSessions[sessionId];
+        const activeSession = activeSessions.get(sessionId);
         if (!activeSession) {
           res.writeHead(404, { "Content-Type": "text/plain" });
           res.end("Session not found");
@@ -68,17 +76,28 @@ async function main<T extends FastMCPSession>(args: {
         transport = activeSession.serverTransport;
         session = activeSession.fastMCPSession;
       } else if (isInitializeRequest(body)) {
+        if (activeSessions.isFull()) {
+          activeSessions.reject();
+          res.writeHead(503, { "Content-Type": "text/plain" });
+          res.end("Too many active sessions");
+          return;
+        }
+
         transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: randomUUID,
           onsessioninitialized: (_sessionId) => {
-            activeSessions[_sessionId] = {
+            activeSessions.set(_sessionId, {
               fastMCPSession: session,
               serverTransport: transport,
-            };
+            });
           },
         });
 
         transport.onclose = async () => {
+          if (transport.sessionId) {
+            activeSessions.delete(transport.sessionId);
+          }
+
           if (onClose) {
             await onClose();
           }
@@ -118,7 +137,9 @@ async function main<T extends FastMCPSession>(args: {
 
   return {
     close: async () => {
-      for (const session of Object.values(activeSessions)) {
+      activeSessions.dispose();
+
+      for (const [, session] of activeSessions.entries()) {
         session.serverTransport.close();
       }
 
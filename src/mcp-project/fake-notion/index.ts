@@ -0,0 +1,26 @@
+import { createFakeNotionServer } from "./server.js";
+
+/**
+ * Run the fake Notion API on its own, e.g. for manual testing:
+ *   pnpm mcp-project:fake-notion --port 8513
+ *   pnpm mcp-project:start --notion-base-url http://localhost:8513
+ * Every Bearer token is accepted unless `--auth-token` is given.
+ */
+
+const DEFAULT_PORT = 8513;
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const port = Number(
+  readFlag("--port") ?? process.env.FAKE_NOTION_PORT ?? DEFAULT_PORT
+);
+const authToken = readFlag("--auth-token");
+
+const { app } = createFakeNotionServer({ authToken });
+
+app.listen(port, () => {
+  console.log(`Fake Notion API is running on http://localhost:${port}`);
+});
@@ -0,0 +1,397 @@
+import express, { Express, NextFunction, Request, Response } from "express";
+import {
+  createFakeNotionStore,
+  FakeNotionStore,
+  FakeObject,
+  getBotUser,
+} from "./store.js";
+
+/**
+ * A stand-in for api.notion.com, so the MCP server can be driven end to end without
+ * network access: point it here with `--notion-base-url`, or start it in-process with
+ * `startFakeNotion` from `testing.ts`, e.g. from Jest.
+ *
+ * Covers the endpoints the tools call: search, pages, databases (queries ignore
+ * `filter` and `sorts`), blocks and block children, with cursor pagination and the
+ * error bodies of the real API. `store.seed` (or `POST /__fake/seed`) fills it with
+ * pages and databases, `simulateRateLimit` answers the next requests with 429, to
+ * exercise the client's retries.
+ *
+ * Reference:
+ * https://developers.notion.com/reference/intro
+ */
+
+type RateLimit = { remaining: number; retryAfterSeconds: number };
+
+const MAX_PAGE_SIZE = 100;
+
+function sendError(
+  res: Response,
+  status: number,
+  code: string,
+  message: string
+) {
+  res.status(status).json({ object: "error", status, code, message });
+}
+
+function notFound(res: Response, id: string) {
+  sendError(
+    res,
+    404,
+    "object_not_found",
+    `Could not find object with ID: ${id}. Make sure the relevant pages and databases are shared with your integration.`
+  );
+}
+
+// Notion's cursors point at the first item of the next page
+function paginate(
+  res: Response,
+  items: FakeObject[],
+  type: "block" | "page_or_database",
+  startCursor: unknown,
+  pageSize: unknown
+) {
+  const size = pageSize === undefined ? MAX_PAGE_SIZE : Number(pageSize);
+
+  if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+    sendError(
+      res,
+      400,
+      "validation_error",
+      `page_size should be an integer between 1 and ${MAX_PAGE_SIZE}, instead was ${String(pageSize)}.`
+    );
+    return;
+  }
+
+  const start = startCursor
+    ? items.findIndex((item) => item.id === startCursor)
+    : 0;
+
+  if (start === -1) {
+    sendError(
+      res,
+      400,
+      "validation_error",
+      `start_cursor provided is invalid: ${String(startCursor)}`
+    );
+    return;
+  }
+
+  const next = items[start + size];
+
+  res.json({
+    object: "list",
+    results: items.slice(start, start + size),
+    next_cursor: next?.id ?? null,
+    has_more: next !== undefined,
+    type,
+    [type]: {},
+  });
+}
+
+export function createFakeNotionServer(options: { authToken?: string } = {}): {
+  app: Express;
+  store: FakeNotionStore;
+  simulateRateLimit: (limit: {
+    requests: number;
+    retryAfterSeconds?: number;
+  }) => void;
+} {
+  const { authToken } = options;
+
+  const store = createFakeNotionStore();
+  const rateLimit: RateLimit = { remaining: 0, retryAfterSeconds: 0 };
+
+  function simulateRateLimit(limit: {
+    requests: number;
+    retryAfterSeconds?: number;
+  }) {
+    rateLimit.remaining = limit.requests;
+    rateLimit.retryAfterSeconds = limit.retryAfterSeconds ?? 0;
+  }
+
+  const app = express();
+  app.use(express.json());
+
+  // 🎛️ controls, for tests driving the server out of process 🎛️
+  app.post("/__fake/rate-limit", (req, res) => {
+    simulateRateLimit({
+      requests: Number(req.body?.requests ?? 1),
+      retryAfterSeconds: Number(req.body?.retryAfterSeconds ?? 0),
+    });
+    res.status(204).end();
+  });
+
+  // `{ "objects": [{ "object": "page", "parent": { "workspace": true }, ... }] }`
+  app.post("/__fake/seed", (req, res) => {
+    res.status(201).json({ results: store.seed(req.body?.objects ?? []) });
+  });
+
+  app.post("/__fake/reset", (_req, res) => {
+    store.reset();
+    simulateRateLimit({ requests: 0 });
+    res.status(204).end();
+  });
+
+  // the checks api.notion.com makes before looking at the request
+  app.use("/v1", (req: Request, res: Response, next: NextFunction) => {
+    const token = req.headers.authorization?.split(" ")[1];
+
+    if (!token || (authToken && token !== authToken)) {
+      sendError(res, 401, "unauthorized", "API token is invalid.");
+      return;
+    }
+
+    if (!req.headers["notion-version"]) {
+      sendError(
+        res,
+        400,
+        "missing_version",
+        "Notion-Version header failed validation: Notion-Version header should be defined."
+      );
+      return;
+    }
+
+    if (rateLimit.remaining > 0) {
+      rateLimit.remaining--;
+      res.setHeader("retry-after", String(rateLimit.retryAfterSeconds));
+      sendError(
+        res,
+        429,
+        "rate_limited",
+        "You have been rate limited. Please try again in a few minutes."
+      );
+      return;
+    }
+
+    next();
+  });
+
+  // 👤 users 👤
+  app.get("/v1/users/me", (_req, res) => {
+    res.json(getBotUser());
+  });
+
+  // 🔦 search 🔦
+  app.post("/v1/search", (req, res) => {
+    const {
+      query = "",
+      filter,
+      sort,
+      start_cursor,
+      page_size,
+    } = req.body ?? {};
+
+    const results = store.search(String(query), filter?.value);
+
+    if (sort?.direction === "ascending") {
+      results.reverse();
+    }
+
+    paginate(res, results, "page_or_database", start_cursor, page_size);
+  });
+
+  // 📕 pages 📕
+  app.post("/v1/pages", (req, res) => {
+    const { parent = {} } = req.body ?? {};
+    const parentId = parent.page_id ?? parent.database_id;
+
+    if (parentId && !store.get(parentId)) {
+      notFound(res, parentId);
+      return;
+    }
+
+    // ids are Notion's to pick, only seeding can fix one
+    res.json(store.createPage({ ...req.body, id: undefined }));
+  });
+
+  app.get("/v1/pages/:id", (req, res) => {
+    const page = store.get(req.params.id);
+
+    if (page?.object !== "page") {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    res.json(page);
+  });
+
+  app.patch("/v1/pages/:id", (req, res) => {
+    const page = store.get(req.params.id);
+
+    if (page?.object !== "page") {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    const { properties, in_trash, archived, icon, cover } = req.body ?? {};
+
+    if (properties) {
+      store.mergeProperties(page, properties);
+    }
+
+    if (in_trash !== undefined || archived !== undefined) {
+      store.setTrashed(page, Boolean(in_trash ?? archived));
+    }
+
+    if (icon !== undefined) {
+      page.icon = icon;
+    }
+
+    if (cover !== undefined) {
+      page.cover = cover;
+    }
+
+    store.touch(page);
+    res.json(page);
+  });
+
+  // 🗄️ databases 🗄️
+  app.post("/v1/databases", (req, res) => {
+    const parentId = req.body?.parent?.page_id;
+
+    if (!store.get(parentId)) {
+      notFound(res, String(parentId));
+      return;
+    }
+
+    res.json(store.createDatabase({ ...req.body, id: undefined }));
+  });
+
+  app.get("/v1/databases/:id", (req, res) => {
+    const database = store.get(req.params.id);
+
+    if (database?.object !== "database") {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    res.json(database);
+  });
+
+  app.post("/v1/databases/:id/query", (req, res) => {
+    if (store.get(req.params.id)?.object !== "database") {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    const { start_cursor, page_size } = req.body ?? {};
+
+    paginate(
+      res,
+      store.queryDatabase(req.params.id),
+      "page_or_database",
+      start_cursor,
+      page_size
+    );
+  });
+
+  // 🧱 blocks 🧱
+  app.get("/v1/blocks/:id", (req, res) => {
+    const block = store.getBlock(req.params.id);
+
+    if (!block) {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    res.json(block);
+  });
+
+  app.patch("/v1/blocks/:id", (req, res) => {
+    const block = store.get(req.params.id);
+
+    if (block?.object !== "block") {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    const type = String(block.type);
+    const { archived, in_trash } = req.body ?? {};
+    const content = req.body?.[type];
+
+    if (content) {
+      block[type] = { ...(block[type] as object), ...content };
+    }
+
+    if (in_trash !== undefined || archived !== undefined) {
+      store.setTrashed(block, Boolean(in_trash ?? archived));
+    }
+
+    store.touch(block);
+    res.json(block);
+  });
+
+  app.delete("/v1/blocks/:id", (req, res) => {
+    const block = store.get(req.params.id);
+
+    if (block?.object !== "block") {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    store.setTrashed(block, true);
+    store.touch(block);
+    res.json(block);
+  });
+
+  // pages hold their content as children too
+  app.get("/v1/blocks/:id/children", (req, res) => {
+    const parent = store.get(req.params.id);
+
+    if (!parent || parent.object === "database") {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    paginate(
+      res,
+      store.listChildren(req.params.id),
+      "block",
+      req.query.start_cursor,
+      req.query.page_size
+    );
+  });
+
+  app.patch("/v1/blocks/:id/children", (req, res) => {
+    const parent = store.get(req.params.id);
+
+    if (!parent || parent.object === "database") {
+      notFound(res, req.params.id);
+      return;
+    }
+
+    const { children = [], after } = req.body ?? {};
+
+    if (
+      after &&
+      !store.listChildren(parent.id).some(({ id }) => id === after)
+    ) {
+      notFound(res, after);
+      return;
+    }
+
+    const blocks = store.appendBlocks(parent.id, children, after);
+    store.touch(parent);
+
+    res.json({
+      object: "list",
+      results: blocks,
+      next_cursor: null,
+      has_more: false,
+      type: "block",
+      block: {},
+    });
+  });
+
+  app.use((req, res) => {
+    sendError(
+      res,
+      400,
+      "invalid_request_url",
+      `Invalid request URL: ${req.method} ${req.path}`
+    );
+  });
+
+  return { app, store, simulateRateLimit };
+}
@@ -0,0 +1,381 @@
+import { randomUUID } from "node:crypto";
+
+/**
+ * In-memory pages, databases and blocks for the fake Notion API, shaped like the
+ * objects api.notion.com returns. Only what the MCP server's tools read is modelled:
+ * rich text gets its `plain_text`, property values their `id` and `type`, and blocks
+ * their parent and `has_children`.
+ */
+
+export type FakeObject = Record<string, unknown> & {
+  object: "page" | "database" | "block";
+  id: string;
+  parent: Record<string, unknown>;
+  archived: boolean;
+  in_trash: boolean;
+  created_time: string;
+  last_edited_time: string;
+};
+
+type RichTextInput = Record<string, unknown> & {
+  type?: string;
+  text?: { content: string; link?: { url: string } | null };
+  equation?: { expression: string };
+};
+
+// The bodies of `POST /v1/pages` and `POST /v1/databases`, plus a fixed `id` if wanted
+type PageInput = {
+  id?: string;
+  parent: Record<string, unknown>;
+  properties?: Record<string, Record<string, unknown> | unknown[]>;
+  children?: Record<string, unknown>[];
+  icon?: unknown;
+  cover?: unknown;
+};
+
+type DatabaseInput = {
+  id?: string;
+  parent: Record<string, unknown>;
+  title?: unknown[];
+  properties: Record<string, Record<string, unknown>>;
+  is_inline?: boolean;
+};
+
+export type FakeSeedObject =
+  ({ object: "page" } & PageInput) | ({ object: "database" } & DatabaseInput);
+
+const BOT_USER = {
+  object: "user",
+  id: "00000000-0000-4000-8000-000000000000",
+  type: "bot",
+  name: "Fake Notion integration",
+  bot: {},
+};
+
+export function getBotUser() {
+  return BOT_USER;
+}
+
+function toRichText(item: RichTextInput) {
+  const type = item.type ?? "text";
+  const plainText =
+    type === "text"
+      ? (item.text?.content ?? "")
+      : type === "equation"
+        ? (item.equation?.expression ?? "")
+        : "";
+
+  return {
+    ...item,
+    type,
+    annotations: {
+      bold: false,
+      italic: false,
+      strikethrough: false,
+      underline: false,
+      code: false,
+      color: "default",
+      ...(item.annotations as object | undefined),
+    },
+    plain_text: item.plain_text ?? plainText,
+    href: item.href ?? item.text?.link?.url ?? null,
+  };
+}
+
+function toRichTextArray(value: unknown) {
+  return Array.isArray(value)
+    ? value.map((item) => toRichText(item as RichTextInput))
+    : [];
+}
+
+// `{ "checkbox": true }` -> `{ "id": "...", "type": "checkbox", "checkbox": true }`
+function toPropertyValue(
+  input: Record<string, unknown> | unknown[],
+  previousId?: string
+) {
+  // a bare rich text array is the shorthand for a title
+  const value = Array.isArray(input) ? { title: input } : input;
+
+  const type =
+    typeof value.type === "string"
+      ? value.type
+      : Object.keys(value).find((key) => key !== "id" && key !== "type");
+
+  if (!type) {
+    return undefined;
+  }
+
+  const content =
+    type === "title" || type === "rich_text"
+      ? toRichTextArray(value[type])
+      : value[type];
+
+  return {
+    id:
+      previousId ??
+      (value.id as string | undefined) ??
+      randomUUID().slice(0, 4),
+    type,
+    [type]: content,
+  };
+}
+
+export function titleOf(object: FakeObject): string {
+  const richText =
+    object.object === "database"
+      ? (object.title as { plain_text: string }[] | undefined)
+      : (
+          Object.values(object.properties ?? {}) as {
+            type: string;
+            title?: { plain_text: string }[];
+          }[]
+        ).find((property) => property.type === "title")?.title;
+
+  return (richText ?? []).map((item) => item.plain_text).join("");
+}
+
+export function createFakeNotionStore() {
+  const objects = new Map<string, FakeObject>();
+  // ordered child block ids of every page and block
+  const children = new Map<string, string[]>();
+
+  function now() {
+    return new Date().toISOString();
+  }
+
+  function base(
+    object: FakeObject["object"],
+    parent: Record<string, unknown>,
+    id: string = randomUUID()
+  ): FakeObject {
+    const time = now();
+
+    return {
+      object,
+      id,
+      parent,
+      archived: false,
+      in_trash: false,
+      created_time: time,
+      last_edited_time: time,
+      created_by: { object: "user", id: BOT_USER.id },
+      last_edited_by: { object: "user", id: BOT_USER.id },
+    };
+  }
+
+  function get(id: string): FakeObject | undefined {
+    return objects.get(id);
+  }
+
+  function touch(object: FakeObject) {
+    object.last_edited_time = now();
+  }
+
+  function setTrashed(object: FakeObject, trashed: boolean) {
+    object.archived = trashed;
+    object.in_trash = trashed;
+  }
+
+  function mergeProperties(
+    object: FakeObject,
+    properties: Record<string, Record<string, unknown> | unknown[]>
+  ) {
+    const current = (object.properties ?? {}) as Record<string, { id: string }>;
+
+    for (const [name, value] of Object.entries(properties)) {
+      const property = toPropertyValue(value, current[name]?.id);
+
+      if (property) {
+        current[name] = property;
+      }
+    }
+
+    object.properties = current;
+  }
+
+  function appendBlocks(
+    parentId: string,
+    blocks: Record<string, unknown>[],
+    after?: string
+  ): FakeObject[] {
+    const parent = objects.get(parentId);
+    const parentRef =
+      parent?.object === "block"
+        ? { type: "block_id", block_id: parentId }
+        : { type: "page_id", page_id: parentId };
+
+    const created = blocks.map((input) => {
+      const type = String(input.type);
+      const { children: nested, ...content } = (input[type] ?? {}) as Record<
+        string,
+        unknown
+      >;
+
+      const block: FakeObject = {
+        ...base("block", parentRef),
+        type,
+        has_children: false,
+        [type]: {
+          ...content,
+          ...(Array.isArray(content.rich_text) && {
+            rich_text: toRichTextArray(content.rich_text),
+          }),
+        },
+      };
+
+      objects.set(block.id, block);
+
+      if (Array.isArray(nested) && nested.length > 0) {
+        appendBlocks(block.id, nested as Record<string, unknown>[]);
+      }
+
+      return block;
+    });
+
+    const ids = children.get(parentId) ?? [];
+    const position = after ? ids.indexOf(after) + 1 : ids.length;
+    ids.splice(position, 0, ...created.map((block) => block.id));
+    children.set(parentId, ids);
+
+    if (parent?.object === "block") {
+      parent.has_children = true;
+    }
+
+    return created;
+  }
+
+  function createPage(input: PageInput): FakeObject {
+    const parent =
+      "database_id" in input.parent
+        ? { type: "database_id", database_id: input.parent.database_id }
+        : "page_id" in input.parent
+          ? { type: "page_id", page_id: input.parent.page_id }
+          : { type: "workspace", workspace: true };
+
+    const page: FakeObject = {
+      ...base("page", parent, input.id),
+      icon: input.icon ?? null,
+      cover: input.cover ?? null,
+      properties: {},
+    };
+    page.url = `https://www.notion.so/${page.id.replace(/-/g, "")}`;
+
+    mergeProperties(page, input.properties ?? {});
+    objects.set(page.id, page);
+
+    if (input.children) {
+      appendBlocks(page.id, input.children);
+    }
+
+    return page;
+  }
+
+  function createDatabase(input: DatabaseInput): FakeObject {
+    const database: FakeObject = {
+      ...base(
+        "database",
+        { type: "page_id", page_id: input.parent.page_id },
+        input.id
+      ),
+      title: toRichTextArray(input.title),
+      description: [],
+      is_inline: input.is_inline ?? false,
+      properties: Object.fromEntries(
+        Object.entries(input.properties).map(([name, config]) => {
+          const type = Object.keys(config)[0];
+          return [
+            name,
+            { id: randomUUID().slice(0, 4), name, type, [type]: config[type] },
+          ];
+        })
+      ),
+    };
+    database.url = `https://www.notion.so/${database.id.replace(/-/g, "")}`;
+
+    objects.set(database.id, database);
+
+    return database;
+  }
+
+  // Pages and databases in order, so a parent can be seeded before its children
+  function seed(items: FakeSeedObject[]): FakeObject[] {
+    return items.map((item) =>
+      item.object === "database" ? createDatabase(item) : createPage(item)
+    );
+  }
+
+  // `GET /v1/blocks/{id}` answers for a page too, as a `child_page` block
+  function getBlock(id: string): FakeObject | undefined {
+    const object = objects.get(id);
+
+    if (object?.object !== "page") {
+      return object?.object === "block" ? object : undefined;
+    }
+
+    return {
+      object: "block",
+      id: object.id,
+      parent: object.parent,
+      type: "child_page",
+      child_page: { title: titleOf(object) },
+      has_children: (children.get(id) ?? []).length > 0,
+      archived: object.archived,
+      in_trash: object.in_trash,
+      created_time: object.created_time,
+      last_edited_time: object.last_edited_time,
+    };
+  }
+
+  function listChildren(parentId: string): FakeObject[] {
+    return (children.get(parentId) ?? [])
+      .map((id) => objects.get(id))
+      .filter((block): block is FakeObject => !!block && !block.in_trash);
+  }
+
+  // Pages and databases whose title contains `query`, most recently edited first
+  function search(query: string, objectType?: "page" | "database") {
+    const needle = query.toLowerCase();
+
+    return [...objects.values()]
+      .filter(
+        (object) =>
+          object.object !== "block" &&
+          !object.in_trash &&
+          (!objectType || object.object === objectType) &&
+          titleOf(object).toLowerCase().includes(needle)
+      )
+      .sort((a, b) => b.last_edited_time.localeCompare(a.last_edited_time));
+  }
+
+  function queryDatabase(databaseId: string) {
+    return [...objects.values()].filter(
+      (object) =>
+        object.object === "page" &&
+        !object.in_trash &&
+        object.parent.database_id === databaseId
+    );
+  }
+
+  function reset() {
+    objects.clear();
+    children.clear();
+  }
+
+  return {
+    get,
+    touch,
+    setTrashed,
+    mergeProperties,
+    appendBlocks,
+    createPage,
+    createDatabase,
+    seed,
+    getBlock,
+    listChildren,
+    search,
+    queryDatabase,
+    reset,
+  };
+}
+
+export type FakeNotionStore = ReturnType<typeof createFakeNotionStore>;
@@ -0,0 +1,59 @@
+import express, { Express, RequestHandler } from "express";
+import { AddressInfo } from "node:net";
+import { configureLogger } from "../mcp-server/logger.js";
+import { configureNotionClient } from "../mcp-server/notion-client.js";
+import { createFakeNotionServer } from "./server.js";
+
+/**
+ * Helpers for Jest: run an app on a free local port, and run the fake Notion API with
+ * this process's Notion client pointed at it.
+ */
+
+export type Listening = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+export async function listen(app: Express): Promise<Listening> {
+  const httpServer = app.listen(0);
+  await new Promise((resolve) => httpServer.once("listening", resolve));
+
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${port}`,
+    close: () =>
+      new Promise((resolve, reject) =>
+        httpServer.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+/**
+ * `middleware` runs ahead of the fake, e.g. to record requests or add an endpoint.
+ * Only errors are logged, tests that look at the log lines configure it themselves.
+ */
+export async function startFakeNotion(
+  options: { authToken?: string; middleware?: RequestHandler[] } = {}
+) {
+  const { authToken, middleware = [] } = options;
+
+  configureLogger({ level: "error" });
+
+  const fake = createFakeNotionServer({ authToken });
+
+  const app = express();
+  app.use(...middleware, fake.app);
+
+  const { url: baseUrl, close } = await listen(app);
+  configureNotionClient({ baseUrl });
+
+  return {
+    store: fake.store,
+    simulateRateLimit: fake.simulateRateLimit,
+    baseUrl,
+    close,
+  };
+}
+
+export type FakeNotion = Awaited<ReturnType<typeof startFakeNotion>>;
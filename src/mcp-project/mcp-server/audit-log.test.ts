@@ -0,0 +1,120 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { FakeNotion, startFakeNotion } from "../fake-notion/testing.js";
+import { AuditEntry, configureAuditLog } from "./audit-log.js";
+import { initServer } from "./server.js";
+
+describe("audit log", () => {
+  let fake: FakeNotion;
+  let directory: string;
+  let file: string;
+  // the audit log as it was when each request reached Notion
+  let requests: { method: string; path: string; auditLog: string }[];
+
+  function readAuditLog(): AuditEntry[] {
+    if (!existsSync(file)) {
+      return [];
+    }
+
+    return readFileSync(file, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+  }
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const server = initServer({ authToken: "ntn_test_token" });
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    try {
+      return await client.callTool({ name, arguments: args });
+    } finally {
+      await client.close();
+    }
+  }
+
+  beforeAll(async () => {
+    fake = await startFakeNotion({
+      middleware: [
+        (req, _res, next) => {
+          requests.push({
+            method: req.method,
+            path: req.path,
+            auditLog: existsSync(file) ? readFileSync(file, "utf8") : "",
+          });
+          next();
+        },
+      ],
+    });
+  });
+
+  beforeEach(() => {
+    requests = [];
+    directory = mkdtempSync(path.join(tmpdir(), "notion-mcp-audit-"));
+    file = path.join(directory, "audit.jsonl");
+  });
+
+  afterEach(() => {
+    configureAuditLog({});
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  it("writes the intent before the call and the outcome after it", async () => {
+    configureAuditLog({ file });
+    const page = fake.store.createPage({ parent: { workspace: true } });
+
+    await callTool("trash-page", { page_id: page.id });
+
+    const [intent, outcome] = readAuditLog();
+    expect(intent).toMatchObject({
+      phase: "intent",
+      tool: "trash-page",
+      arguments: { page_id: page.id },
+    });
+    expect(intent.outcome).toBeUndefined();
+    expect(outcome).toMatchObject({
+      phase: "outcome",
+      callId: intent.callId,
+      outcome: "success",
+      notion: [{ method: "PATCH", status: 200 }],
+    });
+
+    const patch = requests.find(({ method }) => method === "PATCH");
+    expect(JSON.parse(patch?.auditLog ?? "{}")).toMatchObject({
+      phase: "intent",
+      callId: intent.callId,
+    });
+  });
+
+  it("doesn't load the previous values unless asked to", async () => {
+    configureAuditLog({ file });
+    const page = fake.store.createPage({ parent: { workspace: true } });
+
+    await callTool("trash-page", { page_id: page.id });
+
+    expect(requests.map(({ method }) => method)).toEqual(["PATCH"]);
+    expect(readAuditLog()[1].previous).toBeUndefined();
+  });
+
+  it("records the previous values with `previous` on", async () => {
+    configureAuditLog({ file, previous: true });
+    const page = fake.store.createPage({ parent: { workspace: true } });
+
+    await callTool("trash-page", { page_id: page.id });
+
+    expect(requests.map(({ method }) => method)).toEqual(["GET", "PATCH"]);
+    expect(readAuditLog()[1].previous).toMatchObject({ in_trash: false });
+  });
+});
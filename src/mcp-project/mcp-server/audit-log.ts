@@ -0,0 +1,190 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomUUID } from "node:crypto";
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+/**
+ * Append-only JSON lines record of the tool calls that write to Notion: who made the
+ * call, with which arguments, what Notion answered and, when `previous` is on, what
+ * the object looked like before. Disabled until `configureAuditLog` gets a file.
+ */
+
+export type AuditCaller = {
+  // a fingerprint of the Notion token the session acts with, never the token itself
+  notionToken?: string;
+  // `name/version` the client sent at initialize
+  client?: string;
+};
+
+export type AuditEntry = {
+  time: string;
+  // shared by the intent and the outcome entry of one call
+  callId: string;
+  // "intent" is written before the call; a call with no "outcome" never settled
+  phase: "intent" | "outcome";
+  sessionId?: string;
+  requestId?: string | number;
+  caller: AuditCaller;
+  tool: string;
+  arguments: unknown;
+  outcome?: "success" | "error" | "exception";
+  // every Notion request the call made, in order
+  notion?: { method: string; endpoint: string; status: number }[];
+  previous?: unknown;
+  error?: string;
+};
+
+const REDACTED = "[redacted]";
+
+const settings: { file?: string; redact: string[]; previous: boolean } = {
+  redact: [],
+  previous: false,
+};
+
+// appends are chained so entries land in the file in the order the calls settled
+let pending: Promise<void> = Promise.resolve();
+
+// the entry of the tool call running in the current async context
+const currentEntry = new AsyncLocalStorage<AuditEntry>();
+
+export function configureAuditLog(options: {
+  file?: string;
+  redact?: string[];
+  // load the previous values of what a write changes, one more GET per call
+  previous?: boolean;
+}) {
+  settings.file = options.file;
+  settings.redact = options.redact ?? [];
+  settings.previous = options.previous ?? false;
+
+  if (settings.file) {
+    pending = mkdir(path.dirname(settings.file), { recursive: true }).then(
+      () => undefined,
+      // the first append reports the actual problem
+      () => undefined
+    );
+  }
+}
+
+export function isAuditEnabled(): boolean {
+  return settings.file !== undefined;
+}
+
+export function fingerprint(token: string): string {
+  return `sha256:${createHash("sha256").update(token).digest("hex").slice(0, 12)}`;
+}
+
+// Replace the value of every key listed in `redact`, at any depth
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [
+        key,
+        settings.redact.includes(key) ? REDACTED : redact(nested),
+      ])
+    );
+  }
+
+  return value;
+}
+
+function append(entry: AuditEntry): Promise<void> {
+  const { file } = settings;
+
+  if (!file) {
+    return Promise.resolve();
+  }
+
+  const line = `${JSON.stringify({ ...entry, arguments: redact(entry.arguments), previous: redact(entry.previous) })}\n`;
+  const result = pending.then(() => appendFile(file, line));
+  // a failed append must not block the ones queued after it
+  pending = result.catch(() => undefined);
+
+  return result;
+}
+
+// A tool call must not fail because its audit entry couldn't be written
+function appendOrLog(entry: AuditEntry): Promise<void> {
+  return append(entry).catch((error) => {
+    logger.error("Failed to write the audit log entry", {
+      file: settings.file,
+      tool: entry.tool,
+      phase: entry.phase,
+      sessionId: entry.sessionId,
+      error: String(error),
+    });
+  });
+}
+
+/**
+ * Append an intent entry, run the tool call, then append its outcome entry whatever
+ * the outcome. A crash mid-call leaves the intent entry without an outcome.
+ */
+export async function auditToolCall(
+  context: Pick<AuditEntry, "tool" | "sessionId" | "requestId" | "caller"> & {
+    arguments: unknown;
+  },
+  call: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  if (!isAuditEnabled()) {
+    return call();
+  }
+
+  const callId = randomUUID();
+
+  await appendOrLog({
+    time: new Date().toISOString(),
+    callId,
+    phase: "intent",
+    ...context,
+  });
+
+  const entry: AuditEntry = {
+    time: new Date().toISOString(),
+    callId,
+    phase: "outcome",
+    ...context,
+    outcome: "exception",
+    notion: [],
+  };
+
+  try {
+    const result = await currentEntry.run(entry, call);
+    entry.outcome = result.isError ? "error" : "success";
+
+    return result;
+  } catch (error) {
+    entry.error = String(error);
+    throw error;
+  } finally {
+    entry.time = new Date().toISOString();
+    await appendOrLog(entry);
+  }
+}
+
+// Called by the Notion client for every response, a no-op outside an audited call
+export function recordNotionResponse(
+  method: string,
+  endpoint: string,
+  status: number
+) {
+  currentEntry.getStore()?.notion?.push({ method, endpoint, status });
+}
+
+/**
+ * Keep what `load` returns as the entry's `previous` value. `load` only runs inside
+ * an audited call with `previous` on, so tools can call this unconditionally.
+ */
+export async function recordPreviousValue(load: () => Promise<unknown>) {
+  const entry = currentEntry.getStore();
+
+  if (entry && settings.previous) {
+    entry.previous = await load();
+  }
+}
@@ -0,0 +1,202 @@
+import { NOTION_MAX_BLOCK_CHILDREN } from "./constants.js";
+import { NotionClient, NotionList, NotionResponse } from "./notion-client.js";
+
+/**
+ * Reference:
+ * https://developers.notion.com/reference/block
+ */
+
+export type NotionBlock = {
+  object: "block";
+  id: string;
+  type: string;
+  has_children: boolean;
+  children?: NotionBlock[];
+  [key: string]: unknown;
+};
+
+// A block to create, with its children kept apart so they can be appended level by level
+export type BlockInput = {
+  type: string;
+  content: Record<string, unknown>;
+  children: BlockInput[];
+};
+
+export type BlockTree = {
+  blocks: NotionBlock[];
+  // true when `maxDepth` or `maxBlocks` stopped the walk early
+  truncated: boolean;
+};
+
+// Child pages and databases are documents of their own, so the walk stops at them
+const OPAQUE_BLOCK_TYPES = new Set(["child_page", "child_database"]);
+
+export function hasNestedContent(block: NotionBlock): boolean {
+  return block.has_children && !OPAQUE_BLOCK_TYPES.has(block.type);
+}
+
+/**
+ * Fetch the children of `blockId` and, depth first, the children of every block that has any.
+ * `onProgress` gets the number of blocks fetched so far after every request, and
+ * the walk stops with a `cancelled` error once `signal` aborts, mid-request included.
+ */
+export async function fetchBlockTree(
+  notion: NotionClient,
+  blockId: string,
+  options: {
+    maxDepth: number;
+    maxBlocks: number;
+    onProgress?: (fetched: number) => void | Promise<void>;
+    signal?: AbortSignal;
+  }
+): Promise<NotionResponse<BlockTree>> {
+  const { maxDepth, maxBlocks, onProgress, signal } = options;
+
+  let fetched = 0;
+  let truncated = false;
+
+  async function walk(
+    parentId: string,
+    depth: number
+  ): Promise<NotionResponse<NotionBlock[]>> {
+    const response = await notion.requestAll<NotionBlock>(
+      { method: "GET", endpoint: `/v1/blocks/${parentId}/children` },
+      {
+        pageSize: 100,
+        maxItems: maxBlocks - fetched,
+        onPage: (collected) => onProgress?.(fetched + collected),
+        signal,
+      }
+    );
+
+    if (!response.ok) {
+      return response;
+    }
+
+    const { results, has_more } = response.data;
+    fetched += results.length;
+
+    if (has_more) {
+      truncated = true;
+    }
+
+    for (const block of results) {
+      if (!hasNestedContent(block)) {
+        continue;
+      }
+
+      if (depth >= maxDepth || fetched >= maxBlocks) {
+        truncated = true;
+        continue;
+      }
+
+      const children = await walk(block.id, depth + 1);
+
+      if (!children.ok) {
+        return children;
+      }
+
+      block.children = children.data;
+    }
+
+    return { ok: true, status: response.status, data: results };
+  }
+
+  const response = await walk(blockId, 1);
+
+  if (!response.ok) {
+    return response;
+  }
+
+  return {
+    ok: true,
+    status: response.status,
+    data: { blocks: response.data, truncated },
+  };
+}
+
+/**
+ * Append `blocks` under `parentId`, in batches of at most 100 children per request.
+ * Nested children are appended to the created blocks afterwards, which sidesteps
+ * Notion's limit of two nesting levels per request.
+ */
+export async function appendBlockTree(
+  notion: NotionClient,
+  parentId: string,
+  blocks: BlockInput[],
+  options: { after?: string } = {}
+): Promise<NotionResponse<{ created: number; blockIds: string[] }>> {
+  let created = 0;
+
+  async function append(
+    parentId: string,
+    blocks: BlockInput[],
+    after?: string
+  ): Promise<NotionResponse<string[]>> {
+    const blockIds: string[] = [];
+
+    for (let i = 0; i < blocks.length; i += NOTION_MAX_BLOCK_CHILDREN) {
+      const batch = blocks.slice(i, i + NOTION_MAX_BLOCK_CHILDREN);
+
+      const response = await notion.request<NotionList<NotionBlock>>({
+        method: "PATCH",
+        endpoint: `/v1/blocks/${parentId}/children`,
+        body: {
+          children: batch.map(({ type, content }) => ({
+            object: "block",
+            type,
+            [type]: content,
+          })),
+          after,
+        },
+      });
+
+      if (!response.ok) {
+        return response;
+      }
+
+      const { results } = response.data;
+      created += results.length;
+      blockIds.push(...results.map((block) => block.id));
+
+      for (const [j, block] of batch.entries()) {
+        if (block.children.length === 0 || !results[j]) {
+          continue;
+        }
+
+        const children = await append(results[j].id, block.children);
+
+        if (!children.ok) {
+          return children;
+        }
+      }
+
+      // keep the next batch in order when inserting in the middle of the parent
+      if (after !== undefined) {
+        after = results[results.length - 1]?.id ?? after;
+      }
+    }
+
+    return { ok: true, status: 200, data: blockIds };
+  }
+
+  const response = await append(parentId, blocks, options.after);
+
+  if (!response.ok) {
+    const { error } = response;
+
+    return {
+      ...response,
+      error: {
+        ...error,
+        message: `${error.message} (${created} blocks were appended before the failure)`,
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    status: response.status,
+    data: { created, blockIds: response.data },
+  };
+}
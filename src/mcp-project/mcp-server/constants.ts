@@ -1,2 +1,91 @@
+export const SERVER_NAME = "notion-mcp-server" as const;
+export const SERVER_VERSION = "0.0.1" as const;
+
 export const DEFAULT_PORT = 8512 as const;
 export const DEFAULT_TRANSPORT = "stdio" as const;
+export const DEFAULT_LOG_LEVEL = "info" as const;
+
+// In multi-tenant mode each session sends its own Notion token in this header at initialize
+export const NOTION_TOKEN_HEADER = "x-notion-auth-token" as const;
+
+// 🌐 Notion API 🌐
+export const NOTION_BASE_URL = "https://api.notion.com" as const;
+export const NOTION_VERSION = "2022-06-28" as const;
+
+// Notion allows an average of 3 requests per second per integration
+export const NOTION_RATE_LIMIT_PER_SECOND = 3 as const;
+export const NOTION_MAX_RETRIES = 3 as const;
+export const NOTION_RETRY_BASE_DELAY_MS = 500 as const;
+export const NOTION_RETRY_MAX_DELAY_MS = 30_000 as const;
+
+// https://developers.notion.com/reference/request-limits#size-limits
+export const NOTION_MAX_BLOCK_CHILDREN = 100 as const;
+export const NOTION_MAX_RICH_TEXT_LENGTH = 2000 as const;
+export const NOTION_MAX_RICH_TEXT_ITEMS = 100 as const;
+
+// Upper bound on the items collected when a tool follows cursors server-side
+export const DEFAULT_FETCH_ALL_MAX_ITEMS = 1000 as const;
+export const FETCH_ALL_MAX_ITEMS_LIMIT = 10_000 as const;
+
+// Bounds on the block tree walked when rendering a page as Markdown
+export const BLOCK_TREE_MAX_DEPTH = 8 as const;
+export const BLOCK_TREE_MAX_BLOCKS = 1000 as const;
+
+// Upper bounds `export-page` accepts for its own depth and block limits
+export const EXPORT_PAGE_MAX_DEPTH_LIMIT = 20 as const;
+export const EXPORT_PAGE_MAX_BLOCKS_LIMIT = 5000 as const;
+
+// Number of recent pages/databases offered by `resources/list` and by completions
+export const RESOURCE_LIST_SIZE = 50 as const;
+export const RESOURCE_COMPLETION_SIZE = 20 as const;
+
+// Streamable HTTP session limits
+export const SESSION_IDLE_TTL_MS = 30 * 60 * 1000;
+export const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+export const MAX_SESSIONS = 100 as const;
+
+// Resumable streams: events kept per session for replay after a reconnect
+export const DEFAULT_EVENT_STORE = "memory" as const;
+export const DEFAULT_EVENT_STORE_DIR = ".notion-mcp-events" as const;
+export const EVENT_STORE_MAX_EVENTS = 1000 as const;
+
+// Graceful shutdown: how long in-flight tool calls may take before sessions are closed anyway
+export const SHUTDOWN_TIMEOUT_MS = 10 * 1000;
+
+// Readiness: how long the result of the Notion API check is reused
+export const READINESS_CACHE_TTL_MS = 30 * 1000;
+
+// 🧰 tools 🧰
+// Every tool `registerTool` knows, so `--tools` can be checked before the server starts
+export const NOTION_TOOL_NAMES = [
+  "post-search",
+  "get-a-page",
+  "export-page",
+  "create-a-page",
+  "patch-a-page",
+  "trash-page",
+  "restore-page",
+  "retrieve-a-database",
+  "query-a-database",
+  "create-a-database",
+  "get-block-children",
+  "append-block-children",
+  "append-markdown",
+  "retrieve-a-block",
+  "delete-a-block",
+  "patch-a-block",
+] as const;
+
+// The tools kept in read-only mode; any other tool counts as writing to Notion.
+// Searching and querying are POST requests but only read.
+export const READ_ONLY_TOOL_NAMES: readonly NotionToolName[] = [
+  "post-search",
+  "get-a-page",
+  "export-page",
+  "retrieve-a-database",
+  "query-a-database",
+  "get-block-children",
+  "retrieve-a-block",
+];
+
+export type NotionToolName = (typeof NOTION_TOOL_NAMES)[number];
@@ -0,0 +1,129 @@
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createFileEventStore,
+  createInMemoryEventStore,
+  SessionEventStore,
+} from "./event-store.js";
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: "2.0", method: "notifications/message", params: { n } };
+}
+
+async function replay(store: SessionEventStore, lastEventId: string) {
+  const sent: [string, JSONRPCMessage][] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => {
+      sent.push([eventId, message]);
+    },
+  });
+
+  return { streamId, sent };
+}
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "notion-mcp-events-"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe.each([
+  [
+    "createInMemoryEventStore",
+    () => createInMemoryEventStore({ maxEvents: 10 }),
+  ],
+  [
+    "createFileEventStore",
+    () =>
+      createFileEventStore({ directory, sessionId: "session", maxEvents: 10 }),
+  ],
+])("%s", (_, createStore) => {
+  it("replays the events of the same stream that follow Last-Event-ID", async () => {
+    const store = createStore();
+
+    const first = await store.storeEvent("a", notification(1));
+    await store.storeEvent("b", notification(2));
+    const third = await store.storeEvent("a", notification(3));
+
+    const { streamId, sent } = await replay(store, first);
+
+    expect(streamId).toBe("a");
+    expect(sent).toEqual([[third, notification(3)]]);
+  });
+
+  it("replays nothing after an unknown id", async () => {
+    const store = createStore();
+    await store.storeEvent("a", notification(1));
+
+    await expect(replay(store, "unknown")).resolves.toEqual({
+      streamId: "",
+      sent: [],
+    });
+  });
+
+  it("keeps only the last maxEvents events", async () => {
+    const store = createStore();
+    const ids: string[] = [];
+
+    for (let n = 0; n < 25; n++) {
+      ids.push(await store.storeEvent("a", notification(n)));
+    }
+
+    expect((await replay(store, ids[0])).sent).toEqual([]);
+    expect((await replay(store, ids[15])).sent).toHaveLength(9);
+  });
+});
+
+describe("createFileEventStore", () => {
+  const filePath = () => path.join(directory, "session.jsonl");
+
+  function createStore() {
+    return createFileEventStore({
+      directory,
+      sessionId: "session",
+      maxEvents: 10,
+    });
+  }
+
+  it("replays the events of an earlier process and carries on after them", async () => {
+    const before = createStore();
+    const first = await before.storeEvent("a", notification(1));
+    const second = await before.storeEvent("a", notification(2));
+
+    // a restart: a new store on the same file
+    const after = createStore();
+    const third = await after.storeEvent("a", notification(3));
+
+    expect(new Set([first, second, third]).size).toBe(3);
+    expect((await replay(after, first)).sent).toEqual([
+      [second, notification(2)],
+      [third, notification(3)],
+    ]);
+  });
+
+  it("compacts the file once it holds twice maxEvents", async () => {
+    const store = createStore();
+
+    for (let n = 0; n < 25; n++) {
+      await store.storeEvent("a", notification(n));
+    }
+
+    const lines = readFileSync(filePath(), "utf8").trim().split("\n");
+    expect(lines.length).toBeLessThan(20);
+  });
+
+  it("removes the file on dispose", async () => {
+    const store = createStore();
+    await store.storeEvent("a", notification(1));
+
+    await store.dispose();
+
+    expect(existsSync(filePath())).toBe(false);
+  });
+});
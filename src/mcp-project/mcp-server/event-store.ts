@@ -0,0 +1,180 @@
+import {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { appendFile, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Event stores let a client that lost its SSE stream reconnect with `Last-Event-ID`
+ * and receive the messages it missed. One store is created per session, so the
+ * retention bound (`maxEvents`) applies per session.
+ *
+ * Reference:
+ * https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#resumability-and-redelivery
+ */
+
+export type SessionEventStore = EventStore & {
+  // drop everything the session stored, called when the session closes
+  dispose: () => Promise<void>;
+};
+
+type StoredEvent = {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+};
+
+// Send the events of the same stream that follow `lastEventId`, oldest first
+async function replayAfter(
+  events: StoredEvent[],
+  lastEventId: EventId,
+  send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+): Promise<StreamId> {
+  const index = events.findIndex((event) => event.eventId === lastEventId);
+
+  // unknown or already dropped by retention, nothing can be replayed
+  if (index === -1) {
+    return "";
+  }
+
+  const { streamId } = events[index];
+
+  for (const event of events.slice(index + 1)) {
+    if (event.streamId === streamId) {
+      await send(event.eventId, event.message);
+    }
+  }
+
+  return streamId;
+}
+
+export function createInMemoryEventStore(options: {
+  maxEvents: number;
+}): SessionEventStore {
+  const { maxEvents } = options;
+
+  const events: StoredEvent[] = [];
+  let sequence = 0;
+
+  return {
+    storeEvent: async (streamId, message) => {
+      const eventId = String(++sequence);
+
+      events.push({ eventId, streamId, message });
+
+      if (events.length > maxEvents) {
+        events.splice(0, events.length - maxEvents);
+      }
+
+      return eventId;
+    },
+    replayEventsAfter: (lastEventId, { send }) =>
+      replayAfter(events, lastEventId, send),
+    dispose: async () => {
+      events.length = 0;
+    },
+  };
+}
+
+/**
+ * Events are appended to `<directory>/<sessionId>.jsonl`. The file is compacted back to
+ * the last `maxEvents` lines once it holds twice as many, and removed on `dispose`.
+ * A store opened on a file left by an earlier process carries on after its last event.
+ */
+export function createFileEventStore(options: {
+  directory: string;
+  sessionId: string;
+  maxEvents: number;
+}): SessionEventStore {
+  const { directory, sessionId, maxEvents } = options;
+
+  const filePath = path.join(directory, `${sessionId}.jsonl`);
+
+  let sequence = 0;
+  let lines = 0;
+
+  async function readEvents(): Promise<StoredEvent[]> {
+    let content: string;
+
+    try {
+      content = await readFile(filePath, "utf8");
+    } catch {
+      return [];
+    }
+
+    return content
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as StoredEvent)
+      .slice(-maxEvents);
+  }
+
+  async function compact() {
+    const events = await readEvents();
+
+    await writeFile(
+      filePath,
+      events.map((event) => `${JSON.stringify(event)}\n`).join("")
+    );
+
+    lines = events.length;
+  }
+
+  // new event ids must follow the ones already in the file, or replays would mix them up
+  async function restore() {
+    await mkdir(directory, { recursive: true });
+
+    const events = await readEvents();
+    sequence = events.reduce(
+      (last, event) => Math.max(last, Number(event.eventId)),
+      0
+    );
+    lines = events.length;
+  }
+
+  // writes are chained so events land in the file in the order they were stored
+  let pending: Promise<void> = restore().catch(
+    // the first append reports the actual problem
+    () => undefined
+  );
+
+  function enqueue(task: () => Promise<void>): Promise<void> {
+    const result = pending.then(task);
+    // a failed write must not block the ones queued after it
+    pending = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    storeEvent: async (streamId, message) => {
+      let eventId = "";
+
+      await enqueue(async () => {
+        eventId = String(++sequence);
+        const event: StoredEvent = { eventId, streamId, message };
+
+        await appendFile(filePath, `${JSON.stringify(event)}\n`);
+        lines++;
+
+        if (lines >= maxEvents * 2) {
+          await compact();
+        }
+      });
+
+      return eventId;
+    },
+    replayEventsAfter: async (lastEventId, { send }) => {
+      await pending;
+
+      return replayAfter(await readEvents(), lastEventId, send);
+    },
+    dispose: () =>
+      enqueue(async () => {
+        await rm(filePath, { force: true });
+        lines = 0;
+      }),
+  };
+}
@@ -0,0 +1,142 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { spawn } from "node:child_process";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import path from "node:path";
+import { FakeNotion, startFakeNotion } from "../fake-notion/testing.js";
+
+const ENTRY = path.resolve("src/mcp-project/mcp-server/index.ts");
+const AUTH_TOKEN = "ntn_test_token";
+
+function getFreePort(): Promise<number> {
+  const probe = createServer();
+
+  return new Promise((resolve) => {
+    probe.listen(0, () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+// Start the real entry point and resolve once it listens
+async function startServer(notionBaseUrl: string) {
+  const port = await getFreePort();
+  const child = spawn(
+    process.execPath,
+    [
+      "--import",
+      "tsx",
+      ENTRY,
+      "--transport",
+      "httpstream",
+      "--port",
+      String(port),
+      "--auth-token",
+      AUTH_TOKEN,
+      "--notion-base-url",
+      notionBaseUrl,
+      "--event-store",
+      "none",
+    ],
+    { env: { ...process.env, MCP_CONFIG: "" }, stdio: "pipe" }
+  );
+
+  const exited = new Promise<number | null>((resolve) =>
+    child.once("exit", (code) => resolve(code))
+  );
+  let output = "";
+
+  await new Promise<void>((resolve, reject) => {
+    child.stdout.on("data", (chunk) => {
+      output += chunk;
+
+      if (output.includes("MCP Server is running")) {
+        resolve();
+      }
+    });
+    child.stderr.on("data", (chunk) => {
+      output += chunk;
+    });
+    void exited.then(() => reject(new Error(`Server exited:\n${output}`)));
+  });
+
+  return { child, port, exited, getOutput: () => output };
+}
+
+describe("shutdown on SIGTERM", () => {
+  let fake: FakeNotion;
+  let notionRequests: string[];
+  let server: Awaited<ReturnType<typeof startServer>> | undefined;
+
+  beforeAll(async () => {
+    // record what reaches the fake, to send the signal while a call is in flight
+    fake = await startFakeNotion({
+      authToken: AUTH_TOKEN,
+      middleware: [
+        (req, _res, next) => {
+          notionRequests.push(`${req.method} ${req.path}`);
+          next();
+        },
+      ],
+    });
+  });
+
+  beforeEach(() => {
+    notionRequests = [];
+  });
+
+  afterEach(() => {
+    // only ever the process this test started
+    if (server && server.child.exitCode === null) {
+      server.child.kill("SIGKILL");
+    }
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  it("answers a write that is in flight before closing the session", async () => {
+    server = await startServer(fake.baseUrl);
+    const { child, port, exited } = server;
+
+    const page = fake.store.createPage({ parent: { workspace: true } });
+
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`http://localhost:${port}/mcp`),
+      { requestInit: { headers: { authorization: `Bearer ${AUTH_TOKEN}` } } }
+    );
+    await client.connect(transport);
+
+    // the first PATCH is told to retry after a second, the signal arrives meanwhile
+    fake.simulateRateLimit({ requests: 1, retryAfterSeconds: 1 });
+
+    // a dropped response would otherwise only show as the test timing out
+    const call = client.callTool(
+      { name: "trash-page", arguments: { page_id: page.id } },
+      undefined,
+      { timeout: 10_000 }
+    );
+
+    while (!notionRequests.includes(`PATCH /v1/pages/${page.id}`)) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    child.kill("SIGTERM");
+
+    const result = await call;
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({
+      id: page.id,
+      in_trash: true,
+    });
+    expect(fake.store.get(page.id)?.in_trash).toBe(true);
+    await expect(exited).resolves.toBe(0);
+
+    await client.close();
+  }, 30_000);
+});
@@ -3,24 +3,105 @@ import { parseArgs } from "./utils.js";
 import { initServer } from "./server.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createRootRouter } from "./routes/index.js";
+import { NOTION_TOKEN_HEADER, SHUTDOWN_TIMEOUT_MS } from "./constants.js";
+import {
+  getToolCallsInFlight,
+  startDraining,
+  waitForToolCalls,
+} from "./lifecycle.js";
+import { configureAuditLog } from "./audit-log.js";
+import { configureLogger, logger } from "./logger.js";
+import { configureNotionClient } from "./notion-client.js";
 
 /**
  * Reference:
  * https://github.com/bianbianzhu/notion-mcp-server
  */
 
-export async function startMCPServer() {
-  const { transportType, port, authToken } = parseArgs();
+// Stop taking new work, then give the tool calls already running a chance to finish
+async function drain() {
+  startDraining();
+
+  const drained = await waitForToolCalls(SHUTDOWN_TIMEOUT_MS);
+
+  if (!drained) {
+    logger.warning("Shutdown deadline passed with tool calls still running", {
+      toolCallsInFlight: getToolCallsInFlight(),
+      timeoutMs: SHUTDOWN_TIMEOUT_MS,
+    });
+  }
+}
+
+export async function startMCPServer(): Promise<{
+  close: () => Promise<void>;
+}> {
+  const {
+    transportType,
+    port,
+    authToken,
+    gatewayToken,
+    multiTenant,
+    eventStore,
+    eventStoreDir,
+    stateless,
+    logLevel,
+    readOnly,
+    tools,
+    notionBaseUrl,
+    auditLog,
+    auditRedact,
+    auditPrevious,
+  } = parseArgs();
+
+  configureNotionClient({ baseUrl: notionBaseUrl });
+  configureAuditLog({
+    file: auditLog,
+    redact: auditRedact,
+    previous: auditPrevious,
+  });
+
+  const toolAccess = { readOnly, tools };
+
+  // stdout belongs to the JSON-RPC stream in stdio mode
+  configureLogger({
+    level: logLevel,
+    stream: transportType === "stdio" ? "stderr" : "stdout",
+  });
 
   if (transportType === "stdio") {
-    const server = initServer({ authToken });
+    if (multiTenant) {
+      throw new Error(
+        "Multi-tenant mode is only supported with the httpstream transport."
+      );
+    }
+
+    if (stateless) {
+      throw new Error(
+        "Stateless mode is only supported with the httpstream transport."
+      );
+    }
+
+    const server = initServer({ authToken, toolAccess });
     const transport = new StdioServerTransport();
     await server.connect(transport);
 
-    console.log(`${transportType} MCP Server initialized`);
-    return server;
+    logger.info(`${transportType} MCP Server initialized`, { readOnly, tools });
+
+    return {
+      close: async () => {
+        await drain();
+        // closes the stdio transport as well
+        await server.close();
+      },
+    };
   } else if (transportType === "httpstream") {
-    if (!authToken) {
+    if (multiTenant && !gatewayToken) {
+      throw new Error(
+        "Gateway token is required in multi-tenant mode. Set it as an environment variable called MCP_GATEWAY_TOKEN or pass it as an argument to the server."
+      );
+    }
+
+    if (!multiTenant && !authToken) {
       throw new Error(
         "Auth token is required. Obtain a token from https://www.notion.so/my-integrations and set it as an environment variable called NOTION_AUTH_TOKEN or pass it as an argument to the server."
       );
@@ -30,29 +111,83 @@ export async function startMCPServer() {
     app.use(express.json());
 
     // Root router
-    const rootRouter = createRootRouter({ port, authToken });
+    const { router: rootRouter, closeSessions } = createRootRouter({
+      port,
+      authToken,
+      gatewayToken,
+      multiTenant,
+      eventStore,
+      eventStoreDir,
+      stateless,
+      toolAccess,
+    });
     app.use("/", rootRouter);
 
-    app.listen(port, () => {
-      console.log(`${transportType} MCP Server is running on port ${port}`);
-      console.log(`END POINT: http://localhost:${port}/mcp`);
-      console.log(`HEALTH CHECK: http://localhost:${port}/health`);
-      console.log(`Authentication: Bearer token required`);
+    const httpServer = app.listen(port, () => {
+      logger.info(`${transportType} MCP Server is running on port ${port}`, {
+        endpoint: `http://localhost:${port}/mcp`,
+        healthCheck: `http://localhost:${port}/health`,
+        readinessCheck: `http://localhost:${port}/ready`,
+        metrics: `http://localhost:${port}/metrics`,
+        authentication: "Bearer token required for /mcp and /metrics",
+        // stateless: no mcp-session-id, every request is handled on its own
+        stateless,
+        eventStore: stateless ? "none" : eventStore,
+        readOnly,
+        tools,
+        auditLog,
+        notionApi: notionBaseUrl,
+        // multi-tenant: each session sends its Notion token in this header
+        notionTokenHeader: multiTenant ? NOTION_TOKEN_HEADER : undefined,
+      });
     });
+
+    return {
+      close: async () => {
+        await drain();
+        await closeSessions();
+
+        await new Promise<void>((resolve, reject) => {
+          httpServer.close((error) => (error ? reject(error) : resolve()));
+          // idle keep-alive connections would otherwise hold `close` open
+          httpServer.closeIdleConnections();
+        });
+      },
+    };
   } else {
     throw new Error(`Invalid transport: ${transportType}`);
   }
-
-  return {
-    close: () => {},
-  };
 }
 
 (async () => {
   try {
-    await startMCPServer();
+    const server = await startMCPServer();
+
+    let closing = false;
+
+    async function shutdown(signal: NodeJS.Signals) {
+      // a second signal skips the graceful part
+      if (closing) {
+        process.exit(1);
+      }
+
+      closing = true;
+      logger.info(`Received ${signal}, shutting down`);
+
+      try {
+        await server.close();
+        logger.info("Shutdown complete");
+        process.exit(0);
+      } catch (error) {
+        logger.error("Shutdown failed", { error: String(error) });
+        process.exit(1);
+      }
+    }
+
+    process.on("SIGTERM", (signal) => void shutdown(signal));
+    process.on("SIGINT", (signal) => void shutdown(signal));
   } catch (error) {
-    console.error(error);
+    logger.error("Failed to start the MCP server", { error: String(error) });
     process.exit(1);
   }
 })();
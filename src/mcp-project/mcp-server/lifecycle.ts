@@ -0,0 +1,70 @@
+/**
+ * Process-wide shutdown state: once draining, no new sessions are accepted, and
+ * shutdown waits for the tool calls already running (e.g. Notion writes) to finish.
+ * Over HTTP a call only counts as finished once its response is written, otherwise
+ * closing the session could still drop the result of a write Notion has made.
+ */
+
+let draining = false;
+let toolCallsInFlight = 0;
+
+const idleListeners = new Set<() => void>();
+
+export function isDraining(): boolean {
+  return draining;
+}
+
+export function startDraining() {
+  draining = true;
+}
+
+// Call when a tool call starts, and the returned function (once or more) when it settles
+export function trackToolCall(): () => void {
+  toolCallsInFlight++;
+
+  let settled = false;
+
+  return () => {
+    if (settled) {
+      return;
+    }
+
+    settled = true;
+    toolCallsInFlight--;
+
+    if (toolCallsInFlight === 0) {
+      for (const listener of idleListeners) {
+        listener();
+      }
+    }
+  };
+}
+
+/**
+ * Resolve with true once no tool call is running, or with false when `timeoutMs`
+ * passes first.
+ */
+export function waitForToolCalls(timeoutMs: number): Promise<boolean> {
+  if (toolCallsInFlight === 0) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      idleListeners.delete(onIdle);
+      resolve(false);
+    }, timeoutMs);
+
+    function onIdle() {
+      clearTimeout(timer);
+      idleListeners.delete(onIdle);
+      resolve(true);
+    }
+
+    idleListeners.add(onIdle);
+  });
+}
+
+export function getToolCallsInFlight(): number {
+  return toolCallsInFlight;
+}
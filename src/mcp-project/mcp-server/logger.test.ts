@@ -0,0 +1,92 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { FakeNotion, startFakeNotion } from "../fake-notion/testing.js";
+import { configureLogger, logger, withLogContext } from "./logger.js";
+import { initServer } from "./server.js";
+
+describe("logger", () => {
+  let lines: Record<string, unknown>[];
+  let write: jest.SpyInstance;
+
+  beforeEach(() => {
+    lines = [];
+    configureLogger({ level: "debug", stream: "stderr" });
+    write = jest
+      .spyOn(process.stderr, "write")
+      .mockImplementation((chunk: string | Uint8Array) => {
+        lines.push(JSON.parse(String(chunk)));
+        return true;
+      });
+  });
+
+  afterEach(() => {
+    write.mockRestore();
+    configureLogger({ level: "info" });
+  });
+
+  it("adds the fields of the current context to every line", async () => {
+    await withLogContext({ sessionId: "s1" }, async () => {
+      await withLogContext({ requestId: 7 }, async () => {
+        logger.child({ component: "test" }).info("inside");
+      });
+    });
+    logger.info("outside");
+
+    expect(lines).toEqual([
+      expect.objectContaining({
+        message: "inside",
+        sessionId: "s1",
+        requestId: 7,
+        component: "test",
+      }),
+      expect.not.objectContaining({ sessionId: "s1" }),
+    ]);
+  });
+
+  describe("in a tool call", () => {
+    let fake: FakeNotion;
+
+    beforeAll(async () => {
+      fake = await startFakeNotion();
+    });
+
+    afterAll(async () => {
+      await fake.close();
+    });
+
+    it("tags the Notion client's lines with the session and request", async () => {
+      const server = initServer({
+        authToken: "ntn_test_token",
+        sessionId: "session-1",
+      });
+      const client = new Client({ name: "test", version: "1.0.0" });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      fake.simulateRateLimit({ requests: 1 });
+      await client.callTool({
+        name: "get-a-page",
+        arguments: { page_id: "00000000-0000-4000-8000-000000000001" },
+      });
+
+      await client.close();
+
+      const retry = lines.find(
+        (line) => line.message === "Retrying Notion request"
+      );
+      const error = lines.find(
+        (line) => line.message === "Notion error response"
+      );
+
+      for (const line of [retry, error]) {
+        expect(line).toMatchObject({
+          sessionId: "session-1",
+          requestId: expect.any(Number),
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  LoggingLevel,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { SERVER_NAME } from "./constants.js";
+
+/**
+ * JSON lines logger. In stdio mode stdout carries the JSON-RPC stream, so nothing but
+ * protocol messages may be written there: lines go to stderr unless `configureLogger`
+ * says otherwise (the HTTP transport logs to stdout).
+ * Lines logged while `withLogContext` runs carry its fields, e.g. the session and request
+ * ids of a tool call, whichever logger writes them.
+ *
+ * Reference:
+ * https://modelcontextprotocol.io/specification/2025-06-18/server/utilities/logging
+ */
+
+export type LogLevel = LoggingLevel;
+
+export type LogFields = Record<string, unknown>;
+
+// Receives every line, whatever the local level, e.g. to forward it to the MCP client
+export type LogSink = (
+  level: LogLevel,
+  message: string,
+  fields: LogFields
+) => void;
+
+type LogMethod = (message: string, fields?: LogFields) => void;
+
+export type Logger = {
+  debug: LogMethod;
+  info: LogMethod;
+  notice: LogMethod;
+  warning: LogMethod;
+  error: LogMethod;
+  // a logger that adds `fields` to every line, and optionally sends them to `sink` too
+  child: (fields: LogFields, sink?: LogSink) => Logger;
+};
+
+// syslog severities, as used by MCP `logging/setLevel`
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  notice: 2,
+  warning: 3,
+  error: 4,
+  critical: 5,
+  alert: 6,
+  emergency: 7,
+};
+
+const settings: { level: LogLevel; stream: "stdout" | "stderr" } = {
+  level: "info",
+  stream: "stderr",
+};
+
+// the fields of the tool call running in the current async context
+const logContext = new AsyncLocalStorage<LogFields>();
+
+export function configureLogger(options: Partial<typeof settings>) {
+  Object.assign(settings, options);
+}
+
+export function withLogContext<T>(fields: LogFields, run: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, run);
+}
+
+function isEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+  return LEVEL_SEVERITY[level] >= LEVEL_SEVERITY[minLevel];
+}
+
+function createLogger(context: LogFields = {}, sinks: LogSink[] = []): Logger {
+  function log(level: LogLevel, message: string, fields: LogFields = {}) {
+    const merged = { ...logContext.getStore(), ...context, ...fields };
+
+    if (isEnabled(level, settings.level)) {
+      const line = JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        message,
+        ...merged,
+      });
+
+      process[settings.stream].write(`${line}\n`);
+    }
+
+    for (const sink of sinks) {
+      sink(level, message, merged);
+    }
+  }
+
+  return {
+    debug: (message, fields) => log("debug", message, fields),
+    info: (message, fields) => log("info", message, fields),
+    notice: (message, fields) => log("notice", message, fields),
+    warning: (message, fields) => log("warning", message, fields),
+    error: (message, fields) => log("error", message, fields),
+    child: (fields, sink) =>
+      createLogger({ ...context, ...fields }, sink ? [...sinks, sink] : sinks),
+  };
+}
+
+export const logger = createLogger();
+
+/**
+ * Forward log lines to the client as `notifications/message` once it has called
+ * `logging/setLevel`, at or above the level it asked for. The server must declare
+ * the `logging` capability.
+ */
+export function forwardToMcpClient(server: McpServer): LogSink {
+  let clientLevel: LogLevel | undefined;
+
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLevel = request.params.level;
+    return {};
+  });
+
+  return (level, message, fields) => {
+    if (!clientLevel || !isEnabled(level, clientLevel)) {
+      return;
+    }
+
+    server.server
+      .sendLoggingMessage({
+        level,
+        logger: SERVER_NAME,
+        data: { message, ...fields },
+      })
+      // logging the failure would come straight back here
+      .catch(() => undefined);
+  };
+}
@@ -0,0 +1,41 @@
+import { markdownToBlocks, parseInline } from "./markdown-to-blocks.js";
+
+describe("parseInline", () => {
+  it("links absolute URLs", () => {
+    const [item] = parseInline("[docs](https://example.com/docs)");
+
+    expect(item.text).toEqual({
+      content: "docs",
+      link: { url: "https://example.com/docs" },
+    });
+  });
+
+  it.each(["/1a2b3c", "#install", "docs/setup.md"])(
+    "keeps the text of a link to %s without the target",
+    (target) => {
+      const [item] = parseInline(`[setup](${target})`);
+
+      expect(item.text).toEqual({ content: "setup", link: null });
+    }
+  );
+});
+
+describe("markdownToBlocks", () => {
+  it("splits a block with more than 100 rich text items", () => {
+    const markdown = Array.from({ length: 150 }, (_, i) => `**${i}**`).join(
+      " "
+    );
+
+    // 150 bold items and the 149 spaces between them
+    const blocks = markdownToBlocks(markdown);
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      "paragraph",
+      "paragraph",
+      "paragraph",
+    ]);
+    expect(
+      blocks.map((block) => (block.content.rich_text as unknown[]).length)
+    ).toEqual([100, 100, 99]);
+  });
+});
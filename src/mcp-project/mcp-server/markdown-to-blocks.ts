@@ -0,0 +1,340 @@
+import { BlockInput } from "./block-tree.js";
+import {
+  NOTION_MAX_RICH_TEXT_ITEMS,
+  NOTION_MAX_RICH_TEXT_LENGTH,
+} from "./constants.js";
+import { CodeLanguageSchema } from "./schema.js";
+
+/**
+ * Parse Markdown into Notion block objects, the inverse of `markdown.ts`.
+ * Supports headings, nested lists, to-dos, code fences, quotes, dividers and paragraphs,
+ * with bold, italic, strikethrough, inline code and links inside the text.
+ */
+
+type Annotations = {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  code?: boolean;
+};
+
+type RichTextInput = {
+  type: "text";
+  text: { content: string; link: { url: string } | null };
+  annotations: Annotations;
+};
+
+const CODE_LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  rb: "ruby",
+  sh: "shell",
+  zsh: "shell",
+  yml: "yaml",
+  md: "markdown",
+  cpp: "c++",
+  cs: "c#",
+  csharp: "c#",
+  dockerfile: "docker",
+  text: "plain text",
+  txt: "plain text",
+};
+
+// Inline patterns, tried at every position; the earliest match wins
+const INLINE_PATTERNS: {
+  regex: RegExp;
+  toAnnotations?: (annotations: Annotations) => Annotations;
+}[] = [
+  { regex: /`([^`]+)`/ },
+  { regex: /\[([^\]]+)\]\(([^)\s]+)\)/ },
+  {
+    regex: /\*\*(.+?)\*\*|__(.+?)__/,
+    toAnnotations: (annotations) => ({ ...annotations, bold: true }),
+  },
+  {
+    regex: /~~(.+?)~~/,
+    toAnnotations: (annotations) => ({ ...annotations, strikethrough: true }),
+  },
+  {
+    regex: /\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)/,
+    toAnnotations: (annotations) => ({ ...annotations, italic: true }),
+  },
+];
+
+// Notion rejects text objects longer than 2000 characters
+function createTextItems(
+  content: string,
+  annotations: Annotations,
+  url: string | null
+): RichTextInput[] {
+  const items: RichTextInput[] = [];
+
+  for (let i = 0; i < content.length; i += NOTION_MAX_RICH_TEXT_LENGTH) {
+    items.push({
+      type: "text",
+      text: {
+        content: content.slice(i, i + NOTION_MAX_RICH_TEXT_LENGTH),
+        link: url ? { url } : null,
+      },
+      annotations,
+    });
+  }
+
+  return items;
+}
+
+// Notion rejects the whole request for a link it can't open, e.g. `/page` or `#anchor`
+function isLinkTarget(target: string): boolean {
+  try {
+    return ["http:", "https:", "mailto:"].includes(new URL(target).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function parseInline(
+  text: string,
+  annotations: Annotations = {},
+  url: string | null = null
+): RichTextInput[] {
+  let earliest: { match: RegExpExecArray; index: number } | undefined;
+
+  INLINE_PATTERNS.forEach(({ regex }, index) => {
+    const match = regex.exec(text);
+
+    if (match && (!earliest || match.index < earliest.match.index)) {
+      earliest = { match, index };
+    }
+  });
+
+  if (!earliest) {
+    return createTextItems(text, annotations, url);
+  }
+
+  const { match, index } = earliest;
+  const before = text.slice(0, match.index);
+  const after = text.slice(match.index + match[0].length);
+
+  let inner: RichTextInput[];
+
+  if (index === 0) {
+    inner = createTextItems(match[1], { ...annotations, code: true }, url);
+  } else if (index === 1) {
+    // a link Notion would reject keeps its text, without the target
+    inner = parseInline(
+      match[1],
+      annotations,
+      isLinkTarget(match[2]) ? match[2] : url
+    );
+  } else {
+    const { toAnnotations } = INLINE_PATTERNS[index];
+    inner = parseInline(match[1] ?? match[2], toAnnotations!(annotations), url);
+  }
+
+  return [
+    ...(before ? createTextItems(before, annotations, url) : []),
+    ...inner,
+    ...(after ? parseInline(after, annotations, url) : []),
+  ];
+}
+
+function toCodeLanguage(info: string): string {
+  const language = info.trim().split(/\s+/)[0].toLowerCase();
+  const parsed = CodeLanguageSchema.safeParse(
+    CODE_LANGUAGE_ALIASES[language] ?? language
+  );
+
+  return parsed.success ? parsed.data : "plain text";
+}
+
+function createTextBlock(type: string, text: string): BlockInput {
+  return {
+    type,
+    content: { rich_text: parseInline(text) },
+    children: [],
+  };
+}
+
+// Tabs count as four columns, as in CommonMark
+function getIndent(line: string): number {
+  const [whitespace] = /^[ \t]*/.exec(line)!;
+
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+/**
+ * Notion accepts at most 100 rich text items per block: a block with more is split
+ * into blocks of the same type, and its children go with the last of them.
+ */
+function splitRichText(blocks: BlockInput[]): BlockInput[] {
+  return blocks.flatMap((block) => {
+    const children = splitRichText(block.children);
+    const richText = block.content.rich_text as RichTextInput[] | undefined;
+
+    if (!richText || richText.length <= NOTION_MAX_RICH_TEXT_ITEMS) {
+      return [{ ...block, children }];
+    }
+
+    const parts: BlockInput[] = [];
+
+    for (let i = 0; i < richText.length; i += NOTION_MAX_RICH_TEXT_ITEMS) {
+      parts.push({
+        ...block,
+        content: {
+          ...block.content,
+          rich_text: richText.slice(i, i + NOTION_MAX_RICH_TEXT_ITEMS),
+        },
+        children: [],
+      });
+    }
+
+    parts[parts.length - 1].children = children;
+
+    return parts;
+  });
+}
+
+export function markdownToBlocks(markdown: string): BlockInput[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockInput[] = [];
+
+  // open list items, innermost last, with the column of their marker
+  let listStack: { indent: number; block: BlockInput }[] = [];
+  let paragraph: string[] = [];
+
+  function flushParagraph() {
+    if (paragraph.length > 0) {
+      blocks.push(createTextBlock("paragraph", paragraph.join(" ")));
+      paragraph = [];
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    const fence = /^(`{3,}|~{3,})(.*)$/.exec(trimmed);
+
+    if (fence) {
+      flushParagraph();
+      listStack = [];
+
+      const [, marker, info] = fence;
+      const code: string[] = [];
+
+      while (i + 1 < lines.length && !lines[i + 1].trim().startsWith(marker)) {
+        code.push(lines[++i]);
+      }
+
+      i++; // skip the closing fence
+
+      blocks.push({
+        type: "code",
+        content: {
+          rich_text: createTextItems(code.join("\n"), {}, null),
+          language: toCodeLanguage(info),
+        },
+        children: [],
+      });
+      continue;
+    }
+
+    const listItem = /^([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/.exec(
+      trimmed
+    );
+
+    if (listItem && !/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+
+      const [, marker, checkbox, text] = listItem;
+      const indent = getIndent(line);
+
+      let block: BlockInput;
+
+      if (checkbox !== undefined) {
+        block = {
+          type: "to_do",
+          content: {
+            rich_text: parseInline(text),
+            checked: checkbox.toLowerCase() === "x",
+          },
+          children: [],
+        };
+      } else {
+        block = createTextBlock(
+          /^\d/.test(marker) ? "numbered_list_item" : "bulleted_list_item",
+          text
+        );
+      }
+
+      // an item indented past the marker of the previous item is nested under it
+      while (
+        listStack.length > 0 &&
+        listStack[listStack.length - 1].indent >= indent
+      ) {
+        listStack.pop();
+      }
+
+      const parent = listStack[listStack.length - 1];
+      (parent?.block.children ?? blocks).push(block);
+
+      listStack.push({ indent, block });
+      continue;
+    }
+
+    // indented text continues the innermost open list item
+    if (listStack.length > 0 && getIndent(line) > 0 && paragraph.length === 0) {
+      const { block } = listStack[listStack.length - 1];
+      const richText = block.content.rich_text as RichTextInput[];
+
+      richText.push(...parseInline(` ${trimmed}`));
+      continue;
+    }
+
+    listStack = [];
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*$/.exec(trimmed);
+
+    if (heading) {
+      flushParagraph();
+
+      // Notion only has three heading levels
+      const level = Math.min(heading[1].length, 3);
+      blocks.push(createTextBlock(`heading_${level}`, heading[2]));
+      continue;
+    }
+
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: "divider", content: {}, children: [] });
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      flushParagraph();
+
+      const quote = [trimmed.replace(/^>\s?/, "")];
+
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith(">")) {
+        quote.push(lines[++i].trim().replace(/^>\s?/, ""));
+      }
+
+      blocks.push(createTextBlock("quote", quote.join("\n")));
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+
+  flushParagraph();
+
+  return splitRichText(blocks);
+}
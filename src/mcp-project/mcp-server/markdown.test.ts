@@ -0,0 +1,67 @@
+import { NotionBlock } from "./block-tree.js";
+import { renderBlocks } from "./markdown.js";
+
+function block(
+  type: string,
+  text: string,
+  children?: NotionBlock[]
+): NotionBlock {
+  return {
+    object: "block",
+    id: `${type}-${text}`,
+    type,
+    has_children: !!children,
+    [type]: { rich_text: [{ type: "text", plain_text: text }] },
+    children,
+  };
+}
+
+function container(type: string, children: NotionBlock[]): NotionBlock {
+  return {
+    object: "block",
+    id: type,
+    type,
+    has_children: true,
+    [type]: {},
+    children,
+  };
+}
+
+describe("renderBlocks", () => {
+  it("renders the content of columns", () => {
+    const columns = container("column_list", [
+      container("column", [block("paragraph", "left")]),
+      container("column", [block("paragraph", "right")]),
+    ]);
+
+    expect(renderBlocks([columns])).toBe("left\n\nright");
+  });
+
+  it("renders the content of synced blocks", () => {
+    const synced = container("synced_block", [block("paragraph", "shared")]);
+
+    expect(renderBlocks([synced])).toBe("shared");
+  });
+
+  it("renders the content of toggleable headings", () => {
+    const heading = block("heading_2", "Details", [
+      block("paragraph", "hidden"),
+    ]);
+
+    expect(renderBlocks([heading])).toBe("## Details\n\nhidden");
+  });
+
+  it("marks blocks it can't render", () => {
+    const unsupported: NotionBlock = {
+      object: "block",
+      id: "1",
+      type: "breadcrumb",
+      has_children: false,
+      breadcrumb: {},
+    };
+
+    expect(renderBlocks([unsupported])).toBe(
+      "<!-- unsupported block: breadcrumb -->"
+    );
+  });
+});
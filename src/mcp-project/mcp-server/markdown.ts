@@ -0,0 +1,262 @@
+import { NotionBlock } from "./block-tree.js";
+
+/**
+ * Render Notion blocks as Markdown, dropping the metadata the model does not need.
+ * Reference:
+ * https://developers.notion.com/reference/rich-text
+ * https://developers.notion.com/reference/block
+ */
+
+type RichText = {
+  type: string;
+  plain_text: string;
+  href?: string | null;
+  annotations?: {
+    bold?: boolean;
+    italic?: boolean;
+    strikethrough?: boolean;
+    code?: boolean;
+  };
+  equation?: { expression: string };
+};
+
+type FileObject = {
+  type?: "external" | "file";
+  external?: { url: string };
+  file?: { url: string };
+  caption?: RichText[];
+};
+
+const LIST_BLOCK_TYPES = new Set([
+  "bulleted_list_item",
+  "numbered_list_item",
+  "to_do",
+  "toggle",
+]);
+
+function renderRichText(richText: RichText[] = []): string {
+  return richText
+    .map((item) => {
+      if (item.type === "equation" && item.equation) {
+        return `$${item.equation.expression}$`;
+      }
+
+      let text = item.plain_text;
+      const { bold, italic, strikethrough, code } = item.annotations ?? {};
+
+      // keep surrounding whitespace outside of the markers, otherwise Markdown ignores them
+      const [, leading, inner, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+
+      if (!inner) {
+        return text;
+      }
+
+      text = inner;
+
+      if (code) {
+        text = `\`${text}\``;
+      }
+
+      if (bold) {
+        text = `**${text}**`;
+      }
+
+      if (italic) {
+        text = `_${text}_`;
+      }
+
+      if (strikethrough) {
+        text = `~~${text}~~`;
+      }
+
+      if (item.href) {
+        text = `[${text}](${item.href})`;
+      }
+
+      return `${leading}${text}${trailing}`;
+    })
+    .join("");
+}
+
+function getContent<T>(block: NotionBlock): T {
+  return (block[block.type] ?? {}) as T;
+}
+
+function getFileUrl(file: FileObject): string {
+  return file.external?.url ?? file.file?.url ?? "";
+}
+
+function indent(text: string, width: number): string {
+  const padding = " ".repeat(width);
+
+  return text
+    .split("\n")
+    .map((line) => (line ? `${padding}${line}` : line))
+    .join("\n");
+}
+
+function toPageUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, "")}`;
+}
+
+function renderTable(block: NotionBlock): string {
+  const rows = (block.children ?? []).map((row) =>
+    getContent<{ cells: RichText[][] }>(row).cells.map((cell) =>
+      renderRichText(cell).replace(/\|/g, "\\|").replace(/\n/g, " ")
+    )
+  );
+
+  if (rows.length === 0) {
+    return "";
+  }
+
+  // Markdown tables always need a header row, so the first row is used even without `has_column_header`
+  const [header, ...body] = rows;
+  const separator = header.map(() => "---");
+
+  return [header, separator, ...body]
+    .map((cells) => `| ${cells.join(" | ")} |`)
+    .join("\n");
+}
+
+/**
+ * Render a single block, including its nested children.
+ * `listIndex` is the 1-based position of a numbered list item within its list.
+ */
+function renderBlock(block: NotionBlock, listIndex = 1): string {
+  const content = getContent<{
+    rich_text?: RichText[];
+    checked?: boolean;
+    language?: string;
+    icon?: { emoji?: string };
+    title?: string;
+    url?: string;
+    expression?: string;
+    caption?: RichText[];
+  }>(block);
+
+  const text = renderRichText(content.rich_text);
+  const children = block.children ? renderBlocks(block.children) : "";
+
+  // nest children under list items, indented to the start of the item's text
+  function withChildren(marker: string, line: string): string {
+    return children
+      ? `${marker}${line}\n${indent(children, marker.length)}`
+      : `${marker}${line}`;
+  }
+
+  // children that aren't nested visually follow the block as paragraphs of their own
+  function withSection(line: string): string {
+    return [line, children].filter(Boolean).join("\n\n");
+  }
+
+  switch (block.type) {
+    case "paragraph":
+      return children ? `${text}\n\n${indent(children, 2)}` : text;
+    // toggleable headings hold their content as children
+    case "heading_1":
+      return withSection(`# ${text}`);
+    case "heading_2":
+      return withSection(`## ${text}`);
+    case "heading_3":
+      return withSection(`### ${text}`);
+    case "bulleted_list_item":
+    case "toggle":
+      return withChildren("- ", text);
+    case "numbered_list_item":
+      return withChildren(`${listIndex}. `, text);
+    case "to_do":
+      return withChildren("- ", `[${content.checked ? "x" : " "}] ${text}`);
+    case "quote":
+      return [text, children]
+        .filter(Boolean)
+        .join("\n")
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+    case "callout": {
+      const emoji = content.icon?.emoji ? `${content.icon.emoji} ` : "";
+
+      return [`${emoji}${text}`, children]
+        .filter(Boolean)
+        .join("\n")
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+    }
+    case "code": {
+      const language =
+        content.language === "plain text" ? "" : content.language;
+      const plainCode = (content.rich_text ?? [])
+        .map((item) => item.plain_text)
+        .join("");
+
+      return `\`\`\`${language ?? ""}\n${plainCode}\n\`\`\``;
+    }
+    case "equation":
+      return `$$\n${content.expression ?? ""}\n$$`;
+    case "divider":
+      return "---";
+    case "table":
+      return renderTable(block);
+    case "child_page":
+      return `[📄 ${content.title ?? "Untitled"}](${toPageUrl(block.id)})`;
+    case "child_database":
+      return `[🗄️ ${content.title ?? "Untitled"}](${toPageUrl(block.id)})`;
+    case "bookmark":
+    case "embed":
+    case "link_preview": {
+      const caption = renderRichText(content.caption);
+
+      return `[${caption || content.url}](${content.url})`;
+    }
+    case "image": {
+      const file = getContent<FileObject>(block);
+
+      return `![${renderRichText(file.caption)}](${getFileUrl(file)})`;
+    }
+    case "file":
+    case "pdf":
+    case "video":
+    case "audio": {
+      const file = getContent<FileObject>(block);
+      const url = getFileUrl(file);
+
+      return `[${renderRichText(file.caption) || url}](${url})`;
+    }
+    // columns and synced blocks have no text of their own, only children
+    default:
+      return withSection(text) || `<!-- unsupported block: ${block.type} -->`;
+  }
+}
+
+export function renderBlocks(blocks: NotionBlock[]): string {
+  let output = "";
+  let listIndex = 0;
+
+  blocks.forEach((block, i) => {
+    const previous = blocks[i - 1];
+
+    listIndex =
+      block.type === "numbered_list_item" && previous?.type === block.type
+        ? listIndex + 1
+        : 1;
+
+    const rendered = renderBlock(block, listIndex);
+
+    if (i > 0) {
+      // consecutive list items stay in the same list, everything else is its own paragraph
+      const sameList =
+        LIST_BLOCK_TYPES.has(block.type) &&
+        LIST_BLOCK_TYPES.has(previous.type) &&
+        (block.type === "numbered_list_item") ===
+          (previous.type === "numbered_list_item");
+
+      output += sameList ? "\n" : "\n\n";
+    }
+
+    output += rendered;
+  });
+
+  return output;
+}
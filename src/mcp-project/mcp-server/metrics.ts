@@ -0,0 +1,178 @@
+/**
+ * A minimal in-process metrics registry rendered in the Prometheus text format.
+ * Metrics are module-level so every session's server and Notion client report into
+ * the same registry.
+ *
+ * Reference:
+ * https://prometheus.io/docs/instrumenting/exposition_formats/#text-based-format
+ */
+
+type Labels = Record<string, string>;
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render: () => string[];
+};
+
+const metrics: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+
+  if (entries.length === 0) {
+    return "";
+  }
+
+  return `{${entries
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+// Series are keyed by their rendered labels, so label order must be stable
+function sortLabels(labels: Labels): Labels {
+  return Object.fromEntries(
+    Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+export function createCounter(name: string, help: string) {
+  const series = new Map<string, number>();
+
+  metrics.push({
+    name,
+    help,
+    type: "counter",
+    render: () =>
+      [...series].map(([labels, value]) => `${name}${labels} ${value}`),
+  });
+
+  return {
+    inc(labels: Labels = {}, value = 1) {
+      const key = formatLabels(sortLabels(labels));
+      series.set(key, (series.get(key) ?? 0) + value);
+    },
+  };
+}
+
+export function createGauge(name: string, help: string) {
+  const series = new Map<string, number>();
+
+  metrics.push({
+    name,
+    help,
+    type: "gauge",
+    render: () =>
+      [...series].map(([labels, value]) => `${name}${labels} ${value}`),
+  });
+
+  return {
+    set(labels: Labels, value: number) {
+      series.set(formatLabels(sortLabels(labels)), value);
+    },
+  };
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  metrics.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (bucket, i) =>
+            `${name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[i]}`
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+  });
+
+  return {
+    observe(labels: Labels, value: number) {
+      const sorted = sortLabels(labels);
+      const key = formatLabels(sorted);
+
+      let entry = series.get(key);
+
+      if (!entry) {
+        entry = {
+          labels: sorted,
+          counts: buckets.map(() => 0),
+          sum: 0,
+          count: 0,
+        };
+        series.set(key, entry);
+      }
+
+      // buckets are cumulative: a value counts towards every bucket it fits in
+      for (const [i, bucket] of buckets.entries()) {
+        if (value <= bucket) {
+          entry.counts[i]++;
+        }
+      }
+
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+}
+
+export function renderMetrics(): string {
+  return metrics
+    .flatMap(({ name, help, type, render }) => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} ${type}`,
+      ...render(),
+    ])
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+// 📈 Notion MCP server metrics 📈
+
+export const toolCallsTotal = createCounter(
+  "notion_mcp_tool_calls_total",
+  "Tool calls by tool name and outcome (success, error, exception)."
+);
+
+export const toolCallDurationSeconds = createHistogram(
+  "notion_mcp_tool_call_duration_seconds",
+  "Tool call latency in seconds by tool name and outcome.",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+export const notionResponsesTotal = createCounter(
+  "notion_mcp_notion_responses_total",
+  "Responses from the Notion API by method and status code, retried attempts included."
+);
+
+export const authFailuresTotal = createCounter(
+  "notion_mcp_auth_failures_total",
+  "Rejected requests to /mcp by reason."
+);
+
+export const sessionsActive = createGauge(
+  "notion_mcp_sessions_active",
+  "Streamable HTTP sessions currently open."
+);
+
+export const sessionsEvictedTotal = createCounter(
+  "notion_mcp_sessions_evicted_total",
+  "Sessions closed by the idle sweep."
+);
@@ -1,5 +1,6 @@
 import { JSONRPCError } from "@modelcontextprotocol/sdk/types.js";
 import { NextFunction, Request, Response } from "express";
+import { authFailuresTotal } from "../metrics.js";
 
 export function createAuthMiddleware(authToken: string) {
   function middleware(req: Request, res: Response, next: NextFunction) {
@@ -17,6 +18,7 @@ export function createAuthMiddleware(authToken: string) {
     };
 
     if (!token) {
+      authFailuresTotal.inc({ reason: "missing_token" });
       res.status(401).json(missingTokenResponse);
       return;
     }
@@ -31,6 +33,7 @@ export function createAuthMiddleware(authToken: string) {
     };
 
     if (token !== authToken) {
+      authFailuresTotal.inc({ reason: "invalid_token" });
       res.status(403).json(invalidTokenResponse);
       return;
     }
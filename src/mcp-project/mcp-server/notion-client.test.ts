@@ -0,0 +1,82 @@
+import { Router } from "express";
+import { FakeNotion, startFakeNotion } from "../fake-notion/testing.js";
+import { CANCELLED_RESPONSE, createNotionClient } from "./notion-client.js";
+
+describe("createNotionClient", () => {
+  let fake: FakeNotion;
+
+  beforeAll(async () => {
+    // an endpoint that takes its time, to abort a request in flight
+    const slow = Router().get("/v1/slow", (_req, res) => {
+      setTimeout(() => res.json({}), 2000);
+    });
+
+    fake = await startFakeNotion({ middleware: [slow] });
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  it("rate limits each Notion token on its own", async () => {
+    const tenants = ["ntn_tenant_a", "ntn_tenant_b"].map((authToken) =>
+      createNotionClient({ authToken })
+    );
+    const startedAt = Date.now();
+
+    // 4 requests per token: 1s at 3 requests per second, over 2s if the limit were shared
+    const responses = await Promise.all(
+      tenants.flatMap((notion) =>
+        Array.from({ length: 4 }, () =>
+          notion.request({ method: "GET", endpoint: "/v1/users/me" })
+        )
+      )
+    );
+
+    expect(responses.every((response) => response.ok)).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(1800);
+  });
+
+  describe("with an abort signal", () => {
+    const notion = createNotionClient({ authToken: "ntn_abort_token" });
+
+    it("aborts the request in flight", async () => {
+      const startedAt = Date.now();
+
+      const response = await notion.request({
+        method: "GET",
+        endpoint: "/v1/slow",
+        signal: AbortSignal.timeout(100),
+      });
+
+      expect(response).toEqual(CANCELLED_RESPONSE);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    it("stops waiting to retry", async () => {
+      fake.simulateRateLimit({ requests: 1, retryAfterSeconds: 5 });
+      const startedAt = Date.now();
+
+      const response = await notion.request({
+        method: "GET",
+        endpoint: "/v1/users/me",
+        signal: AbortSignal.timeout(300),
+      });
+
+      expect(response).toEqual(CANCELLED_RESPONSE);
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+    });
+
+    it("makes no request once aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const response = await notion.requestAll(
+        { method: "POST", endpoint: "/v1/search", body: {} },
+        { pageSize: 100, maxItems: 100, signal: controller.signal }
+      );
+
+      expect(response).toEqual(CANCELLED_RESPONSE);
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import {
+  NOTION_BASE_URL,
+  NOTION_MAX_RETRIES,
+  NOTION_RATE_LIMIT_PER_SECOND,
+  NOTION_RETRY_BASE_DELAY_MS,
+  NOTION_RETRY_MAX_DELAY_MS,
+  NOTION_VERSION,
+} from "./constants.js";
+import { recordNotionResponse } from "./audit-log.js";
+import { Logger, logger as defaultLogger } from "./logger.js";
+import { notionResponsesTotal } from "./metrics.js";
+
+/**
+ * Reference:
+ * https://developers.notion.com/reference/request-limits
+ * https://developers.notion.com/reference/status-codes
+ */
+
+export type NotionHttpMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+export type NotionRequest = {
+  method: NotionHttpMethod;
+  endpoint: string;
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+  // aborts the request in flight, or the wait before the next attempt
+  signal?: AbortSignal;
+};
+
+// The JSON error body returned by the Notion API
+export type NotionErrorBody = {
+  status: number;
+  code: string;
+  message: string;
+};
+
+// https://developers.notion.com/reference/intro#pagination
+export type NotionList<T = unknown> = {
+  object: "list";
+  results: T[];
+  next_cursor: string | null;
+  has_more: boolean;
+  [key: string]: unknown;
+};
+
+export type NotionResponse<T = unknown> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; status: number; error: NotionErrorBody };
+
+const RETRYABLE_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
+
+// Returned once the caller's `AbortSignal` fired, whether a request was in flight or not
+export const CANCELLED_RESPONSE: NotionResponse<never> = {
+  ok: false,
+  status: 0,
+  error: {
+    status: 0,
+    code: "cancelled",
+    message: "The request was cancelled before it completed",
+  },
+};
+
+const settings: { baseUrl: string } = { baseUrl: NOTION_BASE_URL };
+
+// Point every client at another API origin, e.g. the stand-in in `fake-notion/`
+export function configureNotionClient(options: Partial<typeof settings>) {
+  Object.assign(settings, options);
+}
+
+// Resolves early once `signal` aborts, callers check it afterwards
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const timer = setTimeout(done, ms);
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Each caller reserves the next free slot and waits until it is due.
+ */
+function createRateLimiter(requestsPerSecond: number) {
+  const interval = 1000 / requestsPerSecond;
+  let nextSlot = 0;
+
+  async function acquire(signal?: AbortSignal) {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + interval;
+
+    if (slot > now) {
+      await sleep(slot - now, signal);
+    }
+  }
+
+  // no slot reserved ahead, so a fresh limiter would behave the same
+  function isIdle(): boolean {
+    return nextSlot <= Date.now();
+  }
+
+  return { acquire, isIdle };
+}
+
+type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+/**
+ * Notion limits each integration token on its own, so every session acting with the
+ * same token shares one limiter, and tenants in multi-tenant mode don't throttle each other.
+ */
+const rateLimiters = new Map<string, RateLimiter>();
+
+function getRateLimiter(authToken = ""): RateLimiter {
+  let limiter = rateLimiters.get(authToken);
+
+  if (!limiter) {
+    // forget the tokens that have gone quiet, so tenants coming and going don't pile up
+    for (const [token, idle] of rateLimiters) {
+      if (idle.isIdle()) {
+        rateLimiters.delete(token);
+      }
+    }
+
+    limiter = createRateLimiter(NOTION_RATE_LIMIT_PER_SECOND);
+    rateLimiters.set(authToken, limiter);
+  }
+
+  return limiter;
+}
+
+// `Retry-After` is given in seconds by Notion
+function getRetryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get("retry-after"));
+
+  const delay =
+    Number.isFinite(retryAfter) && retryAfter > 0
+      ? retryAfter * 1000
+      : NOTION_RETRY_BASE_DELAY_MS * 2 ** attempt;
+
+  return Math.min(delay, NOTION_RETRY_MAX_DELAY_MS);
+}
+
+async function parseErrorBody(response: Response): Promise<NotionErrorBody> {
+  const fallback: NotionErrorBody = {
+    status: response.status,
+    code: "unknown_error",
+    message: response.statusText || `HTTP ${response.status}`,
+  };
+
+  try {
+    const body = await response.json();
+
+    return {
+      status: body?.status ?? fallback.status,
+      code: body?.code ?? fallback.code,
+      message: body?.message ?? fallback.message,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+// Paginated endpoints take the cursor in the query string for GET and in the body otherwise
+function withCursor(
+  req: NotionRequest,
+  cursor: string | undefined,
+  pageSize: number
+): NotionRequest {
+  if (req.method === "GET") {
+    return {
+      ...req,
+      query: { ...req.query, start_cursor: cursor, page_size: pageSize },
+    };
+  }
+
+  return {
+    ...req,
+    body: {
+      ...(req.body as Record<string, unknown>),
+      start_cursor: cursor,
+      page_size: pageSize,
+    },
+  };
+}
+
+export function createNotionClient(options: {
+  authToken?: string;
+  logger?: Logger;
+}) {
+  const { authToken, logger = defaultLogger } = options;
+
+  async function request<T = unknown>(
+    req: NotionRequest
+  ): Promise<NotionResponse<T>> {
+    const { method, endpoint, query, body, signal } = req;
+
+    const url = new URL(endpoint, settings.baseUrl);
+
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await getRateLimiter(authToken).acquire(signal);
+
+      if (signal?.aborted) {
+        return CANCELLED_RESPONSE;
+      }
+
+      let response: Response;
+
+      try {
+        response = await fetch(url.toString(), {
+          method,
+          headers: {
+            authorization: `Bearer ${authToken}`,
+            "notion-version": NOTION_VERSION,
+            "content-type": "application/json",
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          return CANCELLED_RESPONSE;
+        }
+
+        notionResponsesTotal.inc({ method, status: "network_error" });
+        recordNotionResponse(method, endpoint, 0);
+        logger.error("Notion request failed", {
+          method,
+          endpoint,
+          error: String(error),
+        });
+
+        return {
+          ok: false,
+          status: 0,
+          error: {
+            status: 0,
+            code: "network_error",
+            message: String(error),
+          },
+        };
+      }
+
+      notionResponsesTotal.inc({ method, status: String(response.status) });
+      recordNotionResponse(method, endpoint, response.status);
+
+      if (response.ok) {
+        try {
+          const data = (await response.json()) as T;
+
+          return { ok: true, status: response.status, data };
+        } catch (error) {
+          // the body is still streaming when the signal aborts
+          if (signal?.aborted) {
+            return CANCELLED_RESPONSE;
+          }
+
+          throw error;
+        }
+      }
+
+      if (
+        RETRYABLE_STATUS_CODES.has(response.status) &&
+        attempt < NOTION_MAX_RETRIES
+      ) {
+        const delayMs = getRetryDelay(response, attempt);
+
+        logger.warning("Retrying Notion request", {
+          method,
+          endpoint,
+          status: response.status,
+          attempt: attempt + 1,
+          delayMs,
+        });
+
+        // drain the body so the connection can be reused
+        await response.body?.cancel();
+        await sleep(delayMs, signal);
+        continue;
+      }
+
+      const error = await parseErrorBody(response);
+
+      logger.warning("Notion error response", {
+        method,
+        endpoint,
+        status: response.status,
+        code: error.code,
+      });
+
+      return { ok: false, status: response.status, error };
+    }
+  }
+
+  /**
+   * Follow `next_cursor` until the list is exhausted or `maxItems` results are collected.
+   * The last page is shrunk to fit, so the returned `next_cursor` resumes exactly where the results stop.
+   * `onPage` gets the number of results collected so far after every page.
+   */
+  async function requestAll<T = unknown>(
+    req: NotionRequest,
+    options: {
+      startCursor?: string;
+      pageSize: number;
+      maxItems: number;
+      onPage?: (collected: number) => void | Promise<void>;
+      signal?: AbortSignal;
+    }
+  ): Promise<NotionResponse<NotionList<T>>> {
+    const { startCursor, pageSize, maxItems, onPage, signal } = options;
+
+    const results: T[] = [];
+    let cursor = startCursor;
+
+    for (;;) {
+      const remaining = maxItems - results.length;
+
+      const response = await request<NotionList<T>>({
+        ...withCursor(req, cursor, Math.min(pageSize, remaining)),
+        signal,
+      });
+
+      if (!response.ok) {
+        return response;
+      }
+
+      const { data } = response;
+      results.push(...data.results);
+      cursor = data.next_cursor ?? undefined;
+      await onPage?.(results.length);
+
+      if (!data.has_more || !cursor || results.length >= maxItems) {
+        return {
+          ok: true,
+          status: response.status,
+          data: { ...data, results },
+        };
+      }
+    }
+  }
+
+  return { request, requestAll };
+}
+
+export type NotionClient = ReturnType<typeof createNotionClient>;
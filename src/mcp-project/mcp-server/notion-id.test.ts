@@ -0,0 +1,61 @@
+import { parseNotionId } from "./notion-id.js";
+
+const PAGE_ID = "1a2b3c4d-5e6f-4071-8293-a4b5c6d7e8f9";
+const PAGE_HEX = PAGE_ID.replace(/-/g, "");
+const BLOCK_ID = "0f1e2d3c-4b5a-4968-8776-655443322110";
+const BLOCK_HEX = BLOCK_ID.replace(/-/g, "");
+
+describe("parseNotionId", () => {
+  it.each([
+    ["a dashed id", PAGE_ID],
+    ["an undashed id", PAGE_HEX],
+    ["an upper case id", PAGE_HEX.toUpperCase()],
+    ["an id with surrounding spaces", `  ${PAGE_ID}\n`],
+    ["a notion.so link", `https://www.notion.so/${PAGE_HEX}`],
+    ["a link with a slug", `https://www.notion.so/acme/Roadmap-${PAGE_HEX}`],
+    ["a notion.site link", `https://acme.notion.site/Roadmap-${PAGE_HEX}`],
+    ["a link with a query", `https://www.notion.so/${PAGE_HEX}?pvs=4`],
+    [
+      "a peek link",
+      `https://www.notion.so/acme/${BLOCK_HEX}?v=1&p=${PAGE_HEX}`,
+    ],
+    ["a block link", `https://www.notion.so/Roadmap-${PAGE_HEX}#${BLOCK_HEX}`],
+  ])("reads the page id from %s", (_, value) => {
+    expect(parseNotionId(value)).toBe(PAGE_ID);
+  });
+
+  it("reads the block from a block link with preferFragment", () => {
+    const link = `https://www.notion.so/Roadmap-${PAGE_HEX}#${BLOCK_HEX}`;
+
+    expect(parseNotionId(link, { preferFragment: true })).toBe(BLOCK_ID);
+  });
+
+  it("falls back to the page when the fragment is no id", () => {
+    const link = `https://www.notion.so/Roadmap-${PAGE_HEX}#heading`;
+
+    expect(parseNotionId(link, { preferFragment: true })).toBe(PAGE_ID);
+  });
+
+  // the result is interpolated into `/v1/<object>/<id>`, nothing else may get through
+  it.each([
+    ["path traversal", `../${PAGE_ID}`],
+    ["path traversal after the id", `${PAGE_ID}/../../users`],
+    ["a query appended to the id", `${PAGE_ID}?filter=all`],
+    ["a fragment appended to the id", `${PAGE_ID}#x`],
+    ["an encoded slash", `${PAGE_HEX}%2F..`],
+    ["a truncated id", PAGE_HEX.slice(1)],
+    ["non-hex characters", PAGE_HEX.replace(/.$/, "g")],
+    ["misplaced dashes", `${PAGE_HEX.slice(0, 4)}-${PAGE_HEX.slice(4)}`],
+    ["another host", `https://example.com/${PAGE_HEX}`],
+    ["a look-alike host", `https://evilnotion.so/${PAGE_HEX}`],
+    [
+      "a Notion host as a subdomain",
+      `https://notion.so.example.com/${PAGE_HEX}`,
+    ],
+    ["a peek link on another host", `https://example.com/x?p=${PAGE_HEX}`],
+    ["a Notion link without an id", "https://www.notion.so/acme/Roadmap"],
+    ["an empty string", ""],
+  ])("rejects %s", (_, value) => {
+    expect(parseNotionId(value)).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Notion ids are UUIDs, but users paste them in every shape: dashed, undashed, or as
+ * a notion.so / notion.site link. Everything is normalised to the dashed form before
+ * it is interpolated into an API path, and anything that isn't 32 hex characters is
+ * rejected, so a value can never reach outside `/v1/<object>/<id>`.
+ */
+
+const UNDASHED_ID = /^[0-9a-f]{32}$/i;
+
+const DASHED_ID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Page slugs end with the id, e.g. `/acme/Roadmap-1a2b...`
+const TRAILING_ID = /([0-9a-f]{32})$/i;
+
+const NOTION_HOSTS = /(^|\.)(notion\.so|notion\.site)$/i;
+
+function toDashed(hex: string): string {
+  const id = hex.toLowerCase();
+
+  return [
+    id.slice(0, 8),
+    id.slice(8, 12),
+    id.slice(12, 16),
+    id.slice(16, 20),
+    id.slice(20),
+  ].join("-");
+}
+
+function normalizeBareId(value: string): string | undefined {
+  if (UNDASHED_ID.test(value)) {
+    return toDashed(value);
+  }
+
+  if (DASHED_ID.test(value)) {
+    return value.toLowerCase();
+  }
+
+  return undefined;
+}
+
+function idFromUrl(value: string, preferFragment: boolean): string | undefined {
+  let url: URL;
+
+  try {
+    url = new URL(value);
+  } catch {
+    return undefined;
+  }
+
+  if (!NOTION_HOSTS.test(url.hostname)) {
+    return undefined;
+  }
+
+  // `#<id>` links to a block on the page
+  const fragment = normalizeBareId(url.hash.slice(1));
+
+  if (preferFragment && fragment) {
+    return fragment;
+  }
+
+  // `?p=<id>` is a page opened as a peek over a database
+  const peek = normalizeBareId(url.searchParams.get("p") ?? "");
+
+  if (peek) {
+    return peek;
+  }
+
+  const lastSegment = url.pathname.split("/").filter(Boolean).pop() ?? "";
+  const match = TRAILING_ID.exec(lastSegment.replace(/-/g, ""));
+
+  return match ? toDashed(match[1]) : undefined;
+}
+
+/**
+ * The dashed id in `value`, or undefined when there is none. With `preferFragment`,
+ * a link to a block on a page (`...#<block id>`) yields the block instead of the page.
+ */
+export function parseNotionId(
+  value: string,
+  options: { preferFragment?: boolean } = {}
+): string | undefined {
+  const trimmed = value.trim();
+
+  return (
+    normalizeBareId(trimmed) ??
+    idFromUrl(trimmed, options.preferFragment ?? false)
+  );
+}
+
+export function invalidNotionIdMessage(value: string): string {
+  const shown = value.length > 80 ? `${value.slice(0, 80)}…` : value;
+
+  return `"${shown}" is not a Notion ID. Pass the 32 character ID (with or without dashes) or a notion.so / notion.site link.`;
+}
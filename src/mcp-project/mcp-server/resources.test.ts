@@ -0,0 +1,218 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { FakeNotion, startFakeNotion } from "../fake-notion/testing.js";
+import { configureLogger } from "./logger.js";
+import { initServer } from "./server.js";
+
+const PAGE_ID = "00000000-0000-4000-8000-000000000001";
+const DATABASE_ID = "00000000-0000-4000-8000-000000000002";
+const MISSING_ID = "00000000-0000-4000-8000-0000000000ff";
+
+function paragraph(content: string) {
+  return {
+    type: "paragraph",
+    paragraph: { rich_text: [{ type: "text", text: { content } }] },
+  };
+}
+
+async function connect(sessionId?: string) {
+  const server = initServer({ authToken: "ntn_test_token", sessionId });
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return client;
+}
+
+describe("resources", () => {
+  let fake: FakeNotion;
+  let client: Client;
+
+  beforeAll(async () => {
+    fake = await startFakeNotion();
+  });
+
+  afterAll(async () => {
+    await fake.close();
+  });
+
+  beforeEach(async () => {
+    fake.store.reset();
+    fake.store.seed([
+      {
+        object: "page",
+        id: PAGE_ID,
+        parent: { page_id: "00000000-0000-4000-8000-0000000000aa" },
+        properties: {
+          title: { title: [{ type: "text", text: { content: "Roadmap" } }] },
+        },
+        children: [
+          paragraph("Ship the resources"),
+          {
+            type: "bulleted_list_item",
+            bulleted_list_item: {
+              rich_text: [{ type: "text", text: { content: "Outer" } }],
+              children: [paragraph("Inner")],
+            },
+          },
+        ],
+      },
+      {
+        object: "database",
+        id: DATABASE_ID,
+        parent: { page_id: PAGE_ID },
+        title: [{ type: "text", text: { content: "Tasks" } }],
+        properties: { Name: { title: {} } },
+      },
+    ]);
+
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("offers a template for pages and one for databases", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates).toEqual([
+      expect.objectContaining({
+        name: "notion-page",
+        uriTemplate: "notion://page/{page_id}",
+        mimeType: "text/markdown",
+      }),
+      expect.objectContaining({
+        name: "notion-database",
+        uriTemplate: "notion://database/{database_id}",
+        mimeType: "application/json",
+      }),
+    ]);
+  });
+
+  it("lists the pages and databases found by search", async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources).toEqual([
+      expect.objectContaining({
+        uri: `notion://page/${PAGE_ID}`,
+        name: "Roadmap",
+        mimeType: "text/markdown",
+      }),
+      expect.objectContaining({
+        uri: `notion://database/${DATABASE_ID}`,
+        name: "Tasks",
+        mimeType: "application/json",
+      }),
+    ]);
+  });
+
+  it("completes a page id from part of its title", async () => {
+    const { completion } = await client.complete({
+      ref: { type: "ref/resource", uri: "notion://page/{page_id}" },
+      argument: { name: "page_id", value: "road" },
+    });
+
+    expect(completion.values).toEqual([PAGE_ID]);
+  });
+
+  it("completes a database id, and nothing for an unknown title", async () => {
+    const complete = (value: string) =>
+      client.complete({
+        ref: { type: "ref/resource", uri: "notion://database/{database_id}" },
+        argument: { name: "database_id", value },
+      });
+
+    expect((await complete("task")).completion.values).toEqual([DATABASE_ID]);
+    expect((await complete("nothing")).completion.values).toEqual([]);
+  });
+
+  it("reads notion://page/{id} as Markdown, nested blocks included", async () => {
+    const uri = `notion://page/${PAGE_ID}`;
+
+    const { contents } = await client.readResource({ uri });
+
+    expect(contents).toEqual([
+      {
+        uri,
+        mimeType: "text/markdown",
+        text: expect.stringMatching(/^# Roadmap\n\n/),
+      },
+    ]);
+    expect(contents[0].text).toContain("Ship the resources");
+    expect(contents[0].text).toMatch(/- Outer\n\s+Inner/);
+  });
+
+  it("reads notion://database/{id} as the database object", async () => {
+    const uri = `notion://database/${DATABASE_ID}`;
+
+    const { contents } = await client.readResource({ uri });
+
+    expect(contents).toEqual([
+      { uri, mimeType: "application/json", text: expect.any(String) },
+    ]);
+    expect(JSON.parse(String(contents[0].text))).toMatchObject({
+      object: "database",
+      id: DATABASE_ID,
+      title: [expect.objectContaining({ plain_text: "Tasks" })],
+      properties: { Name: expect.objectContaining({ type: "title" }) },
+    });
+  });
+
+  it("accepts an id without dashes", async () => {
+    const { contents } = await client.readResource({
+      uri: `notion://page/${PAGE_ID.replace(/-/g, "")}`,
+    });
+
+    expect(contents[0].text).toMatch(/^# Roadmap/);
+  });
+
+  it("rejects an unknown page and an invalid id", async () => {
+    await expect(
+      client.readResource({ uri: `notion://page/${MISSING_ID}` })
+    ).rejects.toThrow(`Resource notion://page/${MISSING_ID} not found`);
+
+    await expect(
+      client.readResource({ uri: "notion://database/..%2Fusers" })
+    ).rejects.toThrow("MCP error -32602");
+  });
+
+  describe("logging", () => {
+    let lines: Record<string, unknown>[];
+    let write: jest.SpyInstance;
+
+    beforeEach(() => {
+      lines = [];
+      configureLogger({ level: "debug", stream: "stderr" });
+      write = jest
+        .spyOn(process.stderr, "write")
+        .mockImplementation((chunk: string | Uint8Array) => {
+          lines.push(JSON.parse(String(chunk)));
+          return true;
+        });
+    });
+
+    afterEach(() => {
+      write.mockRestore();
+      configureLogger({ level: "error" });
+    });
+
+    it("tags the Notion client's lines with the session", async () => {
+      const sessionClient = await connect("session-1");
+
+      fake.simulateRateLimit({ requests: 1 });
+      await sessionClient.readResource({
+        uri: `notion://database/${DATABASE_ID}`,
+      });
+
+      await sessionClient.close();
+
+      expect(
+        lines.find((line) => line.message === "Retrying Notion request")
+      ).toMatchObject({ sessionId: "session-1" });
+    });
+  });
+});
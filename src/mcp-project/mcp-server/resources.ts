@@ -0,0 +1,207 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { fetchBlockTree } from "./block-tree.js";
+import {
+  BLOCK_TREE_MAX_BLOCKS,
+  BLOCK_TREE_MAX_DEPTH,
+  RESOURCE_COMPLETION_SIZE,
+  RESOURCE_LIST_SIZE,
+} from "./constants.js";
+import { Logger, logger as defaultLogger } from "./logger.js";
+import { renderBlocks } from "./markdown.js";
+import {
+  createNotionClient,
+  NotionClient,
+  NotionErrorBody,
+  NotionList,
+  NotionResponse,
+} from "./notion-client.js";
+import { invalidNotionIdMessage, parseNotionId } from "./notion-id.js";
+import { getTitle, NotionObject } from "./summary.js";
+
+/**
+ * Expose Notion pages and databases as `notion://` resources so hosts can attach them as context.
+ */
+
+function toMcpError(uri: string, error: NotionErrorBody): McpError {
+  if (error.code === "object_not_found") {
+    return new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+  }
+
+  return new McpError(
+    ErrorCode.InternalError,
+    `Failed to read ${uri}: ${error.code}: ${error.message}`
+  );
+}
+
+// Template variables are decoded from the URI, so they go through the same checks as tool ids
+function toNotionId(value: string | string[]): string {
+  const id = parseNotionId(String(value));
+
+  if (!id) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      invalidNotionIdMessage(String(value))
+    );
+  }
+
+  return id;
+}
+
+// Most recently edited pages or databases first, optionally matching `query` in the title
+function searchObjects(
+  notion: NotionClient,
+  value: "page" | "database",
+  options: { query?: string; pageSize: number }
+): Promise<NotionResponse<NotionList<NotionObject>>> {
+  return notion.request<NotionList<NotionObject>>({
+    method: "POST",
+    endpoint: "/v1/search",
+    body: {
+      query: options.query ?? "",
+      filter: { property: "object", value },
+      sort: { direction: "descending", timestamp: "last_edited_time" },
+      page_size: options.pageSize,
+    },
+  });
+}
+
+export function registerResource(
+  server: McpServer,
+  options: { authToken?: string; logger?: Logger } = {}
+) {
+  const { authToken, logger = defaultLogger } = options;
+
+  const notion = createNotionClient({ authToken, logger });
+
+  async function completeIds(value: "page" | "database", query: string) {
+    const response = await searchObjects(notion, value, {
+      query,
+      pageSize: RESOURCE_COMPLETION_SIZE,
+    });
+
+    return response.ok ? response.data.results.map((object) => object.id) : [];
+  }
+
+  // 📕 page resources 📕
+  server.registerResource(
+    "notion-page",
+    new ResourceTemplate("notion://page/{page_id}", {
+      list: async () => {
+        const response = await searchObjects(notion, "page", {
+          pageSize: RESOURCE_LIST_SIZE,
+        });
+
+        if (!response.ok) {
+          throw toMcpError("notion://page", response.error);
+        }
+
+        return {
+          resources: response.data.results.map((page) => ({
+            uri: `notion://page/${page.id}`,
+            name: getTitle(page),
+            title: getTitle(page),
+            mimeType: "text/markdown",
+          })),
+        };
+      },
+      complete: {
+        // the user types part of a title, the completion offers the matching page ids
+        page_id: (value) => completeIds("page", value),
+      },
+    }),
+    {
+      title: "Notion page",
+      description: "The content of a Notion page, rendered as Markdown",
+      mimeType: "text/markdown",
+    },
+    async (uri, { page_id }) => {
+      const pageId = toNotionId(page_id);
+
+      const page = await notion.request<NotionObject>({
+        method: "GET",
+        endpoint: `/v1/pages/${pageId}`,
+      });
+
+      if (!page.ok) {
+        throw toMcpError(uri.href, page.error);
+      }
+
+      const tree = await fetchBlockTree(notion, pageId, {
+        maxDepth: BLOCK_TREE_MAX_DEPTH,
+        maxBlocks: BLOCK_TREE_MAX_BLOCKS,
+      });
+
+      if (!tree.ok) {
+        throw toMcpError(uri.href, tree.error);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: `# ${getTitle(page.data)}\n\n${renderBlocks(tree.data.blocks)}`,
+          },
+        ],
+      };
+    }
+  );
+
+  // 🗄️ database resources 🗄️
+  server.registerResource(
+    "notion-database",
+    new ResourceTemplate("notion://database/{database_id}", {
+      list: async () => {
+        const response = await searchObjects(notion, "database", {
+          pageSize: RESOURCE_LIST_SIZE,
+        });
+
+        if (!response.ok) {
+          throw toMcpError("notion://database", response.error);
+        }
+
+        return {
+          resources: response.data.results.map((database) => ({
+            uri: `notion://database/${database.id}`,
+            name: getTitle(database),
+            title: getTitle(database),
+            mimeType: "application/json",
+          })),
+        };
+      },
+      complete: {
+        database_id: (value) => completeIds("database", value),
+      },
+    }),
+    {
+      title: "Notion database",
+      description:
+        "A Notion database object, including its title and property schema",
+      mimeType: "application/json",
+    },
+    async (uri, { database_id }) => {
+      const response = await notion.request({
+        method: "GET",
+        endpoint: `/v1/databases/${toNotionId(database_id)}`,
+      });
+
+      if (!response.ok) {
+        throw toMcpError(uri.href, response.error);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(response.data),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -1,14 +1,34 @@
 import { Router } from "express";
+import { NOTION_TOOL_NAMES, SERVER_VERSION } from "../constants.js";
+import { isToolEnabled, ToolAccess } from "../tools.js";
+import { SessionRegistryStats } from "../../../utils/session-registry.js";
 
-export function createHealthCheckRouter(port: number): Router {
+export function createHealthCheckRouter(
+  port: number,
+  getSessionStats: () => SessionRegistryStats,
+  toolAccess: ToolAccess = { readOnly: false }
+): Router {
   const router = Router();
 
+  const enabledTools = NOTION_TOOL_NAMES.filter((name) =>
+    isToolEnabled(name, toolAccess)
+  );
+
   router.get("/", (_req, res) => {
     res.status(200).json({
       status: "✅ ok",
       timeStamp: new Date().toISOString(),
       transport: "httpstream",
       port,
+      version: SERVER_VERSION,
+      uptimeSeconds: Math.round(process.uptime()),
+      sessions: getSessionStats(),
+      tools: {
+        readOnly: toolAccess.readOnly,
+        // null when every tool is allowed
+        allowlist: toolAccess.tools ?? null,
+        enabled: enabledTools,
+      },
     });
 
     return;
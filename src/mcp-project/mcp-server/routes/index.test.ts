@@ -0,0 +1,171 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import express from "express";
+import {
+  FakeNotion,
+  listen,
+  Listening,
+  startFakeNotion,
+} from "../../fake-notion/testing.js";
+import { SERVER_NAME } from "../constants.js";
+import { createRootRouter } from "./index.js";
+
+const PAGE_ID = "1a2b3c4d-5e6f-4071-8293-a4b5c6d7e8f9";
+
+function title(content: string) {
+  return { title: [{ type: "text", text: { content } }] };
+}
+
+// The MCP server as `index.ts` runs it over HTTP, with the fake standing in for Notion
+describe("MCP over Streamable HTTP", () => {
+  let fake: FakeNotion;
+  let mcp: Listening;
+  let closeSessions: () => Promise<void>;
+  let client: Client;
+  let transport: StreamableHTTPClientTransport;
+
+  beforeAll(async () => {
+    fake = await startFakeNotion();
+
+    const root = createRootRouter({
+      port: 0,
+      authToken: "ntn_test_token",
+      gatewayToken: "gateway-token",
+    });
+    closeSessions = root.closeSessions;
+
+    const app = express();
+    app.use(express.json());
+    app.use("/", root.router);
+    mcp = await listen(app);
+  });
+
+  beforeEach(async () => {
+    fake.store.reset();
+
+    client = new Client({ name: "test", version: "1.0.0" });
+    transport = new StreamableHTTPClientTransport(new URL(`${mcp.url}/mcp`), {
+      requestInit: { headers: { authorization: "Bearer gateway-token" } },
+    });
+    await client.connect(transport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  afterAll(async () => {
+    await closeSessions();
+    await Promise.all([fake.close(), mcp.close()]);
+  });
+
+  it("initializes a session and lists the tools", async () => {
+    expect(transport.sessionId).toEqual(expect.any(String));
+    expect(client.getServerVersion()?.name).toBe(SERVER_NAME);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("get-a-page");
+  });
+
+  it("reads a page seeded through the fake's HTTP API", async () => {
+    const seeded = await fetch(`${fake.baseUrl}/__fake/seed`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        objects: [
+          {
+            object: "page",
+            id: PAGE_ID,
+            parent: { workspace: true },
+            properties: title("Roadmap"),
+          },
+        ],
+      }),
+    });
+    expect(seeded.status).toBe(201);
+
+    const result = await client.callTool({
+      name: "get-a-page",
+      arguments: { page_id: PAGE_ID },
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({
+      id: PAGE_ID,
+      properties: { title: { title: [{ plain_text: "Roadmap" }] } },
+    });
+  });
+
+  it("follows the cursors with fetch_all", async () => {
+    fake.store.seed(
+      Array.from({ length: 120 }, (_, index) => ({
+        object: "page" as const,
+        parent: { workspace: true },
+        properties: title(`Note ${index}`),
+      }))
+    );
+
+    const first = await client.callTool({
+      name: "post-search",
+      arguments: { query: "Note", page_size: 50 },
+    });
+    expect(first.structuredContent).toMatchObject({ has_more: true });
+
+    const all = await client.callTool({
+      name: "post-search",
+      arguments: { query: "Note", page_size: 50, fetch_all: true },
+    });
+    expect(all.structuredContent).toMatchObject({ has_more: false });
+    expect(
+      (all.structuredContent as { results: unknown[] }).results
+    ).toHaveLength(120);
+  });
+
+  it("retries once Notion stops rate limiting", async () => {
+    const [page] = fake.store.seed([
+      {
+        object: "page",
+        parent: { workspace: true },
+        properties: title("Busy"),
+      },
+    ]);
+    fake.simulateRateLimit({ requests: 2 });
+
+    const result = await client.callTool({
+      name: "get-a-page",
+      arguments: { page_id: page.id },
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toMatchObject({ id: page.id });
+  });
+
+  it("reports Notion's errors as tool errors", async () => {
+    const result = await client.callTool({
+      name: "get-a-page",
+      arguments: { page_id: PAGE_ID },
+    });
+    const [content] = result.content as { type: string; text: string }[];
+
+    expect(result.isError).toBe(true);
+    expect(content.text).toContain("object_not_found");
+  });
+
+  it("ends the session on DELETE", async () => {
+    const { sessionId } = transport;
+    await transport.terminateSession();
+
+    const response = await fetch(`${mcp.url}/mcp`, {
+      method: "POST",
+      headers: {
+        authorization: "Bearer gateway-token",
+        "content-type": "application/json",
+        accept: "application/json, text/event-stream",
+        "mcp-session-id": sessionId ?? "",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -1,19 +1,122 @@
 import { Router } from "express";
 import { createHealthCheckRouter } from "./health-check.js";
+import { createMetricsRouter } from "./metrics.js";
+import { createReadinessRouter } from "./ready.js";
 import { createAuthMiddleware } from "../middlewares/auth.js";
-import { createMCPRouter } from "./mcp.js";
+import {
+  createMCPRouter,
+  createStatelessMCPRouter,
+  McpSession,
+} from "./mcp.js";
+import { createSessionRegistry } from "../../../utils/session-registry.js";
+import {
+  createFileEventStore,
+  createInMemoryEventStore,
+  SessionEventStore,
+} from "../event-store.js";
+import {
+  EVENT_STORE_MAX_EVENTS,
+  MAX_SESSIONS,
+  SESSION_IDLE_TTL_MS,
+  SESSION_SWEEP_INTERVAL_MS,
+} from "../constants.js";
+import { logger } from "../logger.js";
+import { sessionsEvictedTotal } from "../metrics.js";
+import { ToolAccess } from "../tools.js";
 
-export function createRootRouter(config: { port: number; authToken: string }) {
-  const { port, authToken } = config;
+export function createRootRouter(config: {
+  port: number;
+  authToken: string;
+  gatewayToken?: string;
+  multiTenant?: boolean;
+  eventStore?: "none" | "memory" | "file";
+  eventStoreDir?: string;
+  stateless?: boolean;
+  toolAccess?: ToolAccess;
+}) {
+  const {
+    port,
+    authToken,
+    gatewayToken,
+    multiTenant = false,
+    eventStore = "none",
+    eventStoreDir,
+    stateless = false,
+    toolAccess = { readOnly: false },
+  } = config;
 
   const rootRouter: Router = Router();
 
-  const healthCheckRouter = createHealthCheckRouter(port);
-  const authMiddleware = createAuthMiddleware(authToken);
-  const mcpRouter = createMCPRouter({ authToken });
+  const sessions = createSessionRegistry<McpSession>({
+    idleTtlMs: SESSION_IDLE_TTL_MS,
+    maxSessions: MAX_SESSIONS,
+    sweepIntervalMs: SESSION_SWEEP_INTERVAL_MS,
+    close: async ({ server, transport }, sessionId) => {
+      logger.info("⌛️ Evicting idle session", { sessionId });
+      sessionsEvictedTotal.inc();
+      await transport.close();
+      await server.close();
+    },
+    onError: (message, context) => logger.error(message, context),
+  });
+
+  function createEventStore(sessionId: string): SessionEventStore | undefined {
+    if (eventStore === "memory") {
+      return createInMemoryEventStore({ maxEvents: EVENT_STORE_MAX_EVENTS });
+    }
+
+    if (eventStore === "file" && eventStoreDir) {
+      return createFileEventStore({
+        directory: eventStoreDir,
+        sessionId,
+        maxEvents: EVENT_STORE_MAX_EVENTS,
+      });
+    }
+
+    return undefined;
+  }
+
+  const healthCheckRouter = createHealthCheckRouter(
+    port,
+    sessions.stats,
+    toolAccess
+  );
+  const metricsRouter = createMetricsRouter(sessions.stats);
+  const readinessRouter = createReadinessRouter({
+    authToken,
+    toolAccess,
+    getSessionStats: sessions.stats,
+  });
+  // The gateway token guards `/mcp`; without one the Notion token doubles as the gateway credential
+  const authMiddleware = createAuthMiddleware(gatewayToken || authToken);
+  const mcpRouter = stateless
+    ? createStatelessMCPRouter({ authToken, multiTenant, toolAccess })
+    : createMCPRouter({
+        authToken,
+        multiTenant,
+        toolAccess,
+        sessions,
+        createEventStore,
+      });
 
   rootRouter.use("/health", healthCheckRouter);
+  rootRouter.use("/ready", readinessRouter);
+  // tool names and call counts are nobody else's business: scrapers send the gateway token too
+  rootRouter.use("/metrics", authMiddleware, metricsRouter);
   rootRouter.use("/mcp", authMiddleware, mcpRouter);
 
-  return rootRouter;
+  // Close every open session, used on shutdown once tool calls have drained
+  async function closeSessions() {
+    sessions.dispose();
+
+    await Promise.all(
+      sessions.entries().map(async ([sessionId, { server, transport }]) => {
+        logger.info("❌ Closing session on shutdown", { sessionId });
+        await transport.close();
+        await server.close();
+      })
+    );
+  }
+
+  return { router: rootRouter, closeSessions };
 }
@@ -0,0 +1,499 @@
+import {
+  CallToolResult,
+  LATEST_PROTOCOL_VERSION,
+} from "@modelcontextprotocol/sdk/types.js";
+import express from "express";
+import {
+  FakeNotion,
+  listen,
+  Listening,
+  startFakeNotion,
+} from "../../fake-notion/testing.js";
+import { createSessionRegistry } from "../../../utils/session-registry.js";
+import { NOTION_TOKEN_HEADER } from "../constants.js";
+import { createInMemoryEventStore } from "../event-store.js";
+import {
+  createMCPRouter,
+  createStatelessMCPRouter,
+  McpSession,
+} from "./mcp.js";
+
+// A stateless replica: its own router, sharing nothing with the others
+function createReplica(options: { multiTenant?: boolean } = {}) {
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/mcp",
+    createStatelessMCPRouter({ authToken: "ntn_test_token", ...options })
+  );
+
+  return listen(app);
+}
+
+// Responses come as a single SSE event, the JSON-RPC message is its data; notifications get none
+async function post(
+  url: string,
+  message: Record<string, unknown>,
+  headers: Record<string, string> = {}
+) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, ...message }),
+  });
+
+  const text = await response.text();
+  const data = /^data: (.*)$/m.exec(text)?.[1];
+
+  return {
+    status: response.status,
+    sessionId: response.headers.get("mcp-session-id") ?? undefined,
+    body: text ? JSON.parse(data ?? text) : undefined,
+  };
+}
+
+// An SSE stream read one event at a time, for the streams that stay open
+function readEvents(response: Response) {
+  const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  async function next(): Promise<{
+    id?: string;
+    message: { id?: string | number; method?: string; result?: CallToolResult };
+  }> {
+    for (;;) {
+      const end = buffer.indexOf("\n\n");
+
+      if (end !== -1) {
+        const event = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const data = /^data: (.*)$/m.exec(event)?.[1];
+
+        if (data) {
+          return {
+            id: /^id: (.*)$/m.exec(event)?.[1],
+            message: JSON.parse(data),
+          };
+        }
+
+        continue;
+      }
+
+      const { value, done } = await reader.read();
+
+      if (done) {
+        throw new Error("The stream ended");
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+    }
+  }
+
+  return { next, close: () => reader.cancel() };
+}
+
+describe("createStatelessMCPRouter", () => {
+  let fake: FakeNotion;
+  let replicas: Listening[];
+
+  beforeAll(async () => {
+    fake = await startFakeNotion();
+
+    replicas = await Promise.all([createReplica(), createReplica()]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([fake, ...replicas].map(({ close }) => close()));
+  });
+
+  it("answers tools/call without initialize or a session", async () => {
+    const page = fake.store.createPage({
+      parent: { workspace: true },
+      properties: { title: [{ text: { content: "Roadmap" } }] },
+    });
+
+    const { status, body } = await post(`${replicas[0].url}/mcp`, {
+      method: "tools/call",
+      params: { name: "get-a-page", arguments: { page_id: page.id } },
+    });
+
+    expect(status).toBe(200);
+    expect(body.result.isError).toBe(false);
+    expect(body.result.structuredContent.id).toBe(page.id);
+  });
+
+  it("needs no affinity: consecutive calls can go to different replicas", async () => {
+    const page = fake.store.createPage({
+      parent: { workspace: true },
+      properties: { title: [{ text: { content: "Spread" } }] },
+    });
+
+    const results = await Promise.all(
+      replicas.map((replica) =>
+        post(`${replica.url}/mcp`, {
+          method: "tools/call",
+          params: { name: "get-a-page", arguments: { page_id: page.id } },
+        })
+      )
+    );
+
+    for (const { body } of results) {
+      expect(body.result.structuredContent.id).toBe(page.id);
+    }
+  });
+
+  it("lists the tools without initialize", async () => {
+    const { body } = await post(`${replicas[1].url}/mcp`, {
+      method: "tools/list",
+    });
+
+    expect(
+      body.result.tools.map((tool: { name: string }) => tool.name)
+    ).toEqual(expect.arrayContaining(["post-search", "get-a-page"]));
+  });
+
+  it("runs trash-page without asking for confirmation", async () => {
+    const page = fake.store.createPage({ parent: { workspace: true } });
+
+    const { body } = await post(`${replicas[0].url}/mcp`, {
+      method: "tools/call",
+      params: { name: "trash-page", arguments: { page_id: page.id } },
+    });
+
+    expect(body.result.isError).toBe(false);
+    expect(fake.store.get(page.id)?.in_trash).toBe(true);
+  });
+
+  it("rejects GET, there is no stream without a session", async () => {
+    const response = await fetch(`${replicas[0].url}/mcp`, {
+      headers: { accept: "text/event-stream" },
+    });
+
+    expect(response.status).toBe(405);
+  });
+
+  it("requires the Notion token header on every request in multi-tenant mode", async () => {
+    const replica = await createReplica({ multiTenant: true });
+
+    try {
+      const message = { method: "tools/list" };
+
+      const missing = await post(`${replica.url}/mcp`, message);
+      expect(missing.status).toBe(401);
+
+      const given = await post(`${replica.url}/mcp`, message, {
+        [NOTION_TOKEN_HEADER]: "ntn_tenant_token",
+      });
+      expect(given.status).toBe(200);
+    } finally {
+      await replica.close();
+    }
+  });
+});
+
+// A stateful server with a session registry of its own
+async function createStatefulServer(
+  options: Omit<Parameters<typeof createMCPRouter>[0], "authToken" | "sessions">
+) {
+  const sessions = createSessionRegistry<McpSession>({
+    idleTtlMs: 60_000,
+    maxSessions: 10,
+    sweepIntervalMs: 60_000,
+    close: async ({ server, transport }) => {
+      await transport.close();
+      await server.close();
+    },
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/mcp",
+    createMCPRouter({ authToken: "ntn_test_token", sessions, ...options })
+  );
+  const server = await listen(app);
+
+  return {
+    url: `${server.url}/mcp`,
+    sessions,
+    close: async () => {
+      sessions.dispose();
+      await Promise.all(
+        sessions.entries().map(([sessionId]) => sessions.evict(sessionId))
+      );
+      await server.close();
+    },
+  };
+}
+
+// initialize and `notifications/initialized`, as a client with elicitation support
+async function initialize(url: string, headers: Record<string, string> = {}) {
+  const { sessionId } = await post(
+    url,
+    {
+      method: "initialize",
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: { elicitation: {} },
+        clientInfo: { name: "test", version: "1.0.0" },
+      },
+    },
+    headers
+  );
+  const sessionHeaders = { ...headers, "mcp-session-id": sessionId ?? "" };
+
+  await post(
+    url,
+    { id: undefined, method: "notifications/initialized" },
+    sessionHeaders
+  );
+
+  return sessionHeaders;
+}
+
+describe("createMCPRouter", () => {
+  let fake: FakeNotion;
+  let mcp: Awaited<ReturnType<typeof createStatefulServer>>;
+  let url: string;
+
+  beforeAll(async () => {
+    fake = await startFakeNotion();
+    mcp = await createStatefulServer({});
+    url = mcp.url;
+  });
+
+  afterAll(async () => {
+    await Promise.all([fake.close(), mcp.close()]);
+  });
+
+  describe("sessions", () => {
+    it("opens a GET stream on a known session", async () => {
+      const headers = await initialize(url);
+
+      const response = await fetch(url, {
+        headers: { ...headers, accept: "text/event-stream" },
+      });
+      await response.body?.cancel();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+    });
+
+    it("answers GET on an unknown session with 404", async () => {
+      const response = await fetch(url, {
+        headers: {
+          accept: "text/event-stream",
+          "mcp-session-id": "00000000-0000-4000-8000-000000000000",
+        },
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("answers GET without a session id with 400", async () => {
+      const response = await fetch(url, {
+        headers: { accept: "text/event-stream" },
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("ends the session on DELETE", async () => {
+      const headers = await initialize(url);
+
+      const deleted = await fetch(url, { method: "DELETE", headers });
+      expect(deleted.status).toBe(200);
+      expect(mcp.sessions.get(headers["mcp-session-id"])).toBeUndefined();
+
+      const { status } = await post(url, { method: "tools/list" }, headers);
+      expect(status).toBe(404);
+    });
+
+    it("answers other methods with 405", async () => {
+      const response = await fetch(url, { method: "PUT" });
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get("allow")).toBe("GET, POST, DELETE");
+    });
+  });
+
+  describe("confirmation", () => {
+    // The question must come on the tool call's own stream, this client opens no other
+    async function trashPage(answer: Record<string, unknown>) {
+      const headers = await initialize(url);
+      const page = fake.store.createPage({ parent: { workspace: true } });
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+          ...headers,
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 2,
+          method: "tools/call",
+          params: { name: "trash-page", arguments: { page_id: page.id } },
+        }),
+      });
+      const events = readEvents(response);
+
+      const question = await events.next();
+      expect(question.message.method).toBe("elicitation/create");
+
+      const answered = await post(
+        url,
+        { id: question.message.id, result: answer },
+        headers
+      );
+      expect(answered.status).toBe(202);
+
+      const { message } = await events.next();
+      await events.close();
+
+      return { page, result: message.result };
+    }
+
+    it("goes ahead once the user accepts", async () => {
+      const { page, result } = await trashPage({
+        action: "accept",
+        content: { confirm: true },
+      });
+
+      expect(result?.isError).toBe(false);
+      expect(fake.store.get(page.id)?.in_trash).toBe(true);
+    });
+
+    it("changes nothing when the user declines", async () => {
+      const { page, result } = await trashPage({ action: "decline" });
+
+      expect(result?.content).toEqual([
+        expect.objectContaining({
+          text: expect.stringContaining("did not confirm"),
+        }),
+      ]);
+      expect(fake.store.get(page.id)?.in_trash).toBe(false);
+    });
+  });
+
+  describe("with an event store", () => {
+    let resumable: Awaited<ReturnType<typeof createStatefulServer>>;
+
+    beforeAll(async () => {
+      resumable = await createStatefulServer({
+        createEventStore: () => createInMemoryEventStore({ maxEvents: 100 }),
+      });
+    });
+
+    afterAll(async () => {
+      await resumable.close();
+    });
+
+    function openStream(headers: Record<string, string>) {
+      return fetch(resumable.url, {
+        headers: { ...headers, accept: "text/event-stream" },
+      });
+    }
+
+    it("replays what follows Last-Event-ID when a GET stream reconnects", async () => {
+      const headers = await initialize(resumable.url);
+      const page = fake.store.createPage({ parent: { workspace: true } });
+
+      // every tool call then logs a line to the client, on the GET stream
+      await post(
+        resumable.url,
+        { method: "logging/setLevel", params: { level: "info" } },
+        headers
+      );
+      const events = readEvents(await openStream(headers));
+
+      for (const id of [2, 3]) {
+        await post(
+          resumable.url,
+          {
+            id,
+            method: "tools/call",
+            params: { name: "get-a-page", arguments: { page_id: page.id } },
+          },
+          headers
+        );
+      }
+
+      const first = await events.next();
+      const second = await events.next();
+      await events.close();
+
+      const resumed = readEvents(
+        await openStream({ ...headers, "last-event-id": first.id ?? "" })
+      );
+      const replayed = await resumed.next();
+      await resumed.close();
+
+      expect(first.message.method).toBe("notifications/message");
+      expect(replayed).toEqual(second);
+    });
+  });
+
+  describe("in multi-tenant mode", () => {
+    let tenants: Awaited<ReturnType<typeof createStatefulServer>>;
+
+    const tenantA = { [NOTION_TOKEN_HEADER]: "ntn_tenant_a" };
+
+    beforeAll(async () => {
+      tenants = await createStatefulServer({ multiTenant: true });
+    });
+
+    afterAll(async () => {
+      await tenants.close();
+    });
+
+    it("only lets the tenant that created a session use it", async () => {
+      const headers = await initialize(tenants.url, tenantA);
+      const message = { method: "tools/list" };
+
+      const own = await post(tenants.url, message, headers);
+      expect(own.status).toBe(200);
+
+      const other = await post(tenants.url, message, {
+        ...headers,
+        [NOTION_TOKEN_HEADER]: "ntn_tenant_b",
+      });
+      expect(other.status).toBe(403);
+
+      const none = await post(tenants.url, message, {
+        "mcp-session-id": headers["mcp-session-id"],
+      });
+      expect(none.status).toBe(403);
+    });
+
+    it("checks the tenant on GET and DELETE too", async () => {
+      const headers = await initialize(tenants.url, tenantA);
+      const other = { ...headers, [NOTION_TOKEN_HEADER]: "ntn_tenant_b" };
+
+      const stream = await fetch(tenants.url, {
+        headers: { ...other, accept: "text/event-stream" },
+      });
+      expect(stream.status).toBe(403);
+
+      const deleted = await fetch(tenants.url, {
+        method: "DELETE",
+        headers: other,
+      });
+      expect(deleted.status).toBe(403);
+
+      // still there for its own tenant
+      const { status } = await post(
+        tenants.url,
+        { method: "tools/list" },
+        headers
+      );
+      expect(status).toBe(200);
+    });
+  });
+});
@@ -2,24 +2,93 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   isInitializeRequest,
+  isJSONRPCRequest,
   JSONRPCError,
 } from "@modelcontextprotocol/sdk/types.js";
-import { Router } from "express";
+import { Request, Response, Router } from "express";
 import { randomUUID } from "node:crypto";
+import { NOTION_TOKEN_HEADER } from "../constants.js";
+import { sessionNotionTokenSchema } from "../schema.js";
+import { isDraining, trackToolCall } from "../lifecycle.js";
+import { logger } from "../logger.js";
+import { authFailuresTotal } from "../metrics.js";
 import { initServer } from "../server.js";
+import { ToolAccess } from "../tools.js";
+import { SessionEventStore } from "../event-store.js";
+import { SessionRegistry } from "../../../utils/session-registry.js";
 
-export function createMCPRouter(options: { authToken: string }): Router {
-  const { authToken } = options;
+/**
+ * Keep shutdown waiting until the response to the requests in `req` is written: the
+ * tool call itself settles before the transport sends its result, and closing the
+ * session in between would lose it. Notifications and responses get no answer to wait for.
+ */
+function trackResponse(req: Request, res: Response) {
+  const messages: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+
+  if (messages.some((message) => isJSONRPCRequest(message))) {
+    // `close` also fires when the client goes away before the response is written
+    res.on("close", trackToolCall());
+  }
+}
+
+export type McpSession = {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  notionToken: string;
+  eventStore?: SessionEventStore;
+};
+
+/**
+ * In multi-tenant mode the Notion token is read from the initialize request
+ * and kept with the session, so each caller acts as their own integration.
+ * Every later request of the session must send the same token: the session id alone
+ * doesn't let a caller act with another tenant's integration.
+ */
+export function createMCPRouter(options: {
+  authToken: string;
+  multiTenant?: boolean;
+  toolAccess?: ToolAccess;
+  sessions: SessionRegistry<McpSession>;
+  // lets clients resume a dropped stream with `Last-Event-ID`, none when it returns undefined
+  createEventStore?: (sessionId: string) => SessionEventStore | undefined;
+}): Router {
+  const {
+    authToken,
+    multiTenant = false,
+    toolAccess,
+    sessions,
+    createEventStore = () => undefined,
+  } = options;
 
   const router: Router = Router();
 
-  const sessions = new Map<
-    string,
-    {
-      server: McpServer;
-      transport: StreamableHTTPServerTransport;
+  // Answers and returns false when `req` doesn't come from the tenant of `session`
+  function checkTenant(
+    req: Request,
+    res: Response,
+    session: McpSession
+  ): boolean {
+    if (
+      !multiTenant ||
+      req.headers[NOTION_TOKEN_HEADER] === session.notionToken
+    ) {
+      return true;
     }
-  >();
+
+    const wrongTenantResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32002,
+        message: `❌ Forbidden: The session belongs to another ${NOTION_TOKEN_HEADER}`,
+      },
+    };
+
+    authFailuresTotal.inc({ reason: "wrong_tenant" });
+    res.status(403).json(wrongTenantResponse);
+
+    return false;
+  }
 
   router.post("/", async (req, res) => {
     const sid = req.headers["mcp-session-id"];
@@ -27,6 +96,37 @@ export function createMCPRouter(options: { authToken: string }): Router {
     let transport: StreamableHTTPServerTransport;
     let server: McpServer;
 
+    const sessionNotionToken = sessionNotionTokenSchema.safeParse(
+      req.headers[NOTION_TOKEN_HEADER]
+    );
+
+    const missingNotionTokenResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32001,
+        message: `❌ Unauthorized: Missing ${NOTION_TOKEN_HEADER} header`,
+      },
+    };
+
+    const shuttingDownResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32000,
+        message: "❌ Service Unavailable: Server is shutting down",
+      },
+    };
+
+    const tooManySessionsResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32000,
+        message: "❌ Service Unavailable: Too many active sessions",
+      },
+    };
+
     if (sid && typeof sid === "string") {
       const session = sessions.get(sid);
 
@@ -44,28 +144,80 @@ export function createMCPRouter(options: { authToken: string }): Router {
         return;
       }
 
+      if (!checkTenant(req, res, session)) {
+        return;
+      }
+
       server = session.server;
       transport = session.transport;
+
+      // a tool call answered over SSE keeps the session busy until its response ends
+      res.on("close", sessions.track(sid));
     } else if (!sid && isInitializeRequest(req.body)) {
+      if (isDraining()) {
+        res.status(503).json(shuttingDownResponse);
+        return;
+      }
+
+      if (sessions.isFull()) {
+        sessions.reject();
+        res.status(503).json(tooManySessionsResponse);
+        return;
+      }
+
+      if (multiTenant && !sessionNotionToken.success) {
+        authFailuresTotal.inc({ reason: "missing_notion_token" });
+        res.status(401).json(missingNotionTokenResponse);
+        return;
+      }
+
+      const notionToken =
+        multiTenant && sessionNotionToken.success
+          ? sessionNotionToken.data
+          : authToken;
+
+      // generated up front so a file-backed event store can be named after the session
+      const newSessionId = randomUUID();
+      const eventStore = createEventStore(newSessionId);
+
       transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: randomUUID,
+        sessionIdGenerator: () => newSessionId,
+        eventStore,
         onsessioninitialized: (sessionId) => {
           sessions.set(sessionId, {
             transport,
             server,
+            notionToken,
+            eventStore,
+          });
+          logger.info("⭐️ New session initialized", {
+            sessionId,
+            requestId: req.body?.id,
           });
-          console.log(`⭐️ New session initialized: ${sessionId}`);
         },
       });
 
       transport.onclose = () => {
         if (transport.sessionId) {
-          console.log(`❌ Closing session: ${transport.sessionId}`);
+          logger.info("❌ Closing session", {
+            sessionId: transport.sessionId,
+          });
           sessions.delete(transport.sessionId);
         }
+
+        eventStore?.dispose().catch((error) => {
+          logger.error("Failed to dispose the event store", {
+            sessionId: transport.sessionId,
+            error: String(error),
+          });
+        });
       };
 
-      server = initServer({ authToken });
+      server = initServer({
+        authToken: notionToken,
+        toolAccess,
+        sessionId: newSessionId,
+      });
 
       await server.connect(transport);
     } else {
@@ -82,8 +234,190 @@ export function createMCPRouter(options: { authToken: string }): Router {
       return;
     }
 
+    trackResponse(req, res);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // GET and DELETE only make sense for an existing session
+  async function handleSessionRequest(req: Request, res: Response) {
+    const sid = req.headers["mcp-session-id"];
+
+    const missingSessionIdResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32000,
+        message: "❌ Bad Request: Missing mcp-session-id header",
+      },
+    };
+
+    if (!sid || typeof sid !== "string") {
+      res.status(400).json(missingSessionIdResponse);
+      return;
+    }
+
+    const session = sessions.get(sid);
+
+    const sessionNotFoundResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32000,
+        message: "❌ Bad Request: Session not found",
+      },
+    };
+
+    if (!session) {
+      res.status(404).json(sessionNotFoundResponse);
+      return;
+    }
+
+    if (!checkTenant(req, res, session)) {
+      return;
+    }
+
+    // an open GET stream keeps the session from being swept as idle
+    res.on("close", sessions.track(sid));
+
+    await session.transport.handleRequest(req, res);
+
+    return session;
+  }
+
+  // Server-to-client SSE stream for notifications and server requests
+  router.get("/", async (req, res) => {
+    await handleSessionRequest(req, res);
+  });
+
+  // Session termination
+  router.delete("/", async (req, res) => {
+    const session = await handleSessionRequest(req, res);
+
+    if (!session) {
+      return;
+    }
+
+    // the transport has closed itself by now, this releases the server as well
+    if (session.transport.sessionId) {
+      sessions.delete(session.transport.sessionId);
+    }
+    await session.server.close();
+  });
+
+  router.all("/", (req, res) => {
+    const methodNotAllowedResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32000,
+        message: `❌ Method Not Allowed: ${req.method}`,
+      },
+    };
+
+    res
+      .status(405)
+      .set("Allow", "GET, POST, DELETE")
+      .json(methodNotAllowedResponse);
+  });
+
+  return router;
+}
+
+/**
+ * Every POST gets its own server and transport, nothing outlives the request,
+ * so replicas behind a load balancer need no session affinity.
+ * In multi-tenant mode the Notion token header is therefore required on every request.
+ * Nor can a request elicit anything from the client: trash-page and delete-a-block run
+ * without asking for confirmation.
+ */
+export function createStatelessMCPRouter(options: {
+  authToken: string;
+  multiTenant?: boolean;
+  toolAccess?: ToolAccess;
+}): Router {
+  const { authToken, multiTenant = false, toolAccess } = options;
+
+  const router: Router = Router();
+
+  router.post("/", async (req, res) => {
+    const sessionNotionToken = sessionNotionTokenSchema.safeParse(
+      req.headers[NOTION_TOKEN_HEADER]
+    );
+
+    const missingNotionTokenResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32001,
+        message: `❌ Unauthorized: Missing ${NOTION_TOKEN_HEADER} header`,
+      },
+    };
+
+    const shuttingDownResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32000,
+        message: "❌ Service Unavailable: Server is shutting down",
+      },
+    };
+
+    // every request is a new "session" in stateless mode
+    if (isDraining()) {
+      res.status(503).json(shuttingDownResponse);
+      return;
+    }
+
+    if (multiTenant && !sessionNotionToken.success) {
+      authFailuresTotal.inc({ reason: "missing_notion_token" });
+      res.status(401).json(missingNotionTokenResponse);
+      return;
+    }
+
+    const notionToken =
+      multiTenant && sessionNotionToken.success
+        ? sessionNotionToken.data
+        : authToken;
+
+    const server = initServer({ authToken: notionToken, toolAccess });
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+    });
+
+    res.on("close", () => {
+      transport.close().catch((error) => {
+        logger.error("Failed to close the stateless transport", {
+          requestId: req.body?.id,
+          error: String(error),
+        });
+      });
+      server.close().catch((error) => {
+        logger.error("Failed to close the stateless server", {
+          requestId: req.body?.id,
+          error: String(error),
+        });
+      });
+    });
+
+    await server.connect(transport);
+
+    trackResponse(req, res);
     await transport.handleRequest(req, res, req.body);
   });
 
+  // Without sessions there is no stream to resume and nothing to terminate
+  router.all("/", (req, res) => {
+    const methodNotAllowedResponse: JSONRPCError = {
+      jsonrpc: "2.0",
+      id: req.body?.id ?? null,
+      error: {
+        code: -32000,
+        message: `❌ Method Not Allowed: ${req.method} (stateless mode)`,
+      },
+    };
+
+    res.status(405).set("Allow", "POST").json(methodNotAllowedResponse);
+  });
+
   return router;
 }
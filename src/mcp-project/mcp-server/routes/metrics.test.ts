@@ -0,0 +1,59 @@
+import express from "express";
+import {
+  FakeNotion,
+  listen,
+  Listening,
+  startFakeNotion,
+} from "../../fake-notion/testing.js";
+import { createRootRouter } from "./index.js";
+
+describe("/metrics", () => {
+  let fake: FakeNotion;
+  let server: Listening;
+  let closeSessions: () => Promise<void>;
+  let url: string;
+
+  beforeAll(async () => {
+    // nothing here should reach Notion, the fake makes sure it can't reach the real one
+    fake = await startFakeNotion();
+
+    const root = createRootRouter({
+      port: 0,
+      authToken: "ntn_test_token",
+      gatewayToken: "gateway-token",
+    });
+    closeSessions = root.closeSessions;
+
+    const app = express();
+    app.use(express.json());
+    app.use("/", root.router);
+
+    server = await listen(app);
+    url = `${server.url}/metrics`;
+  });
+
+  afterAll(async () => {
+    await closeSessions();
+    await Promise.all([fake.close(), server.close()]);
+  });
+
+  it("requires the gateway token", async () => {
+    expect((await fetch(url)).status).toBe(401);
+
+    const wrong = await fetch(url, {
+      headers: { authorization: "Bearer ntn_test_token" },
+    });
+    expect(wrong.status).toBe(403);
+  });
+
+  it("counts evicted sessions with a Prometheus counter", async () => {
+    const response = await fetch(url, {
+      headers: { authorization: "Bearer gateway-token" },
+    });
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(text).toContain("# TYPE notion_mcp_sessions_evicted_total counter");
+    expect(text).toContain("# TYPE notion_mcp_sessions_active gauge");
+  });
+});
@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { renderMetrics, sessionsActive } from "../metrics.js";
+import { SessionRegistryStats } from "../../../utils/session-registry.js";
+
+export function createMetricsRouter(
+  getSessionStats: () => SessionRegistryStats
+): Router {
+  const router = Router();
+
+  router.get("/", (_req, res) => {
+    // the session gauge is read from the registry at scrape time
+    sessionsActive.set({}, getSessionStats().active);
+
+    res
+      .status(200)
+      .type("text/plain; version=0.0.4; charset=utf-8")
+      .send(renderMetrics());
+  });
+
+  return router;
+}
@@ -0,0 +1,97 @@
+import { Router } from "express";
+import {
+  NOTION_TOOL_NAMES,
+  READINESS_CACHE_TTL_MS,
+  SERVER_VERSION,
+} from "../constants.js";
+import { isDraining } from "../lifecycle.js";
+import { createNotionClient } from "../notion-client.js";
+import { isToolEnabled, ToolAccess } from "../tools.js";
+import { SessionRegistryStats } from "../../../utils/session-registry.js";
+
+type NotionCheck = {
+  ok: boolean;
+  // "skipped" when there is no configured token to check with (multi-tenant mode)
+  status: "reachable" | "unreachable" | "skipped";
+  checkedAt: string;
+  error?: string;
+};
+
+/**
+ * Ready means the Notion API answers with the configured token. The check calls
+ * `GET /v1/users/me` and its result is reused for `READINESS_CACHE_TTL_MS`, so
+ * probes from a load balancer don't eat into Notion's rate limit.
+ */
+export function createReadinessRouter(options: {
+  authToken: string;
+  toolAccess?: ToolAccess;
+  getSessionStats: () => SessionRegistryStats;
+}): Router {
+  const {
+    authToken,
+    toolAccess = { readOnly: false },
+    getSessionStats,
+  } = options;
+
+  const notion = createNotionClient({ authToken });
+  const toolNames = NOTION_TOOL_NAMES.filter((name) =>
+    isToolEnabled(name, toolAccess)
+  );
+
+  let cached: { check: NotionCheck; expiresAt: number } | undefined;
+
+  async function checkNotion(): Promise<NotionCheck> {
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.check;
+    }
+
+    const checkedAt = new Date().toISOString();
+    let check: NotionCheck;
+
+    if (!authToken) {
+      check = { ok: true, status: "skipped", checkedAt };
+    } else {
+      const response = await notion.request({
+        method: "GET",
+        endpoint: "/v1/users/me",
+      });
+
+      check = response.ok
+        ? { ok: true, status: "reachable", checkedAt }
+        : {
+            ok: false,
+            status: "unreachable",
+            checkedAt,
+            error: `${response.error.code}: ${response.error.message}`,
+          };
+    }
+
+    cached = { check, expiresAt: Date.now() + READINESS_CACHE_TTL_MS };
+
+    return check;
+  }
+
+  const router = Router();
+
+  router.get("/", async (_req, res) => {
+    const notionCheck = await checkNotion();
+    // a draining server should get no new traffic from the load balancer
+    const ready = notionCheck.ok && !isDraining();
+
+    res.status(ready ? 200 : 503).json({
+      status: ready
+        ? "✅ ready"
+        : isDraining()
+          ? "❌ draining"
+          : "❌ not ready",
+      timeStamp: new Date().toISOString(),
+      version: SERVER_VERSION,
+      uptimeSeconds: Math.round(process.uptime()),
+      sessions: { active: getSessionStats().active },
+      tools: toolNames,
+      checks: { notion: notionCheck },
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import {
+  CreateDatabaseRequestSchema,
+  CreatePageRequestSchema,
+  PatchPageBodySchema,
+} from "./schema.js";
+
+const CreatePageSchema = z.object(CreatePageRequestSchema);
+const CreateDatabaseSchema = z.object(CreateDatabaseRequestSchema);
+
+const PARENT_ID = "1a2b3c4d-5e6f-4071-8293-a4b5c6d7e8f9";
+
+const richText = (content: string, url?: string) => [
+  { type: "text", text: { content, ...(url && { link: { url } }) } },
+];
+
+describe("page properties", () => {
+  const parent = { page_id: "00000000-0000-4000-8000-000000000001" };
+
+  it("accepts the rich text shorthand for the title property", () => {
+    const result = CreatePageSchema.safeParse({
+      parent,
+      properties: { title: richText("Roadmap") },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects the rich text shorthand for any other property", () => {
+    const result = PatchPageBodySchema.safeParse({
+      properties: { Status: richText("Done") },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts full property values under any key", () => {
+    const result = PatchPageBodySchema.safeParse({
+      properties: {
+        title: { title: richText("Roadmap") },
+        Notes: { rich_text: richText("Later") },
+        Done: { checkbox: true },
+      },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("checks a value against its own type only", () => {
+    const result = PatchPageBodySchema.safeParse({
+      properties: { Done: { checkbox: "yes" } },
+    });
+
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        code: "invalid_type",
+        expected: "boolean",
+        path: ["properties", "Done", "checkbox"],
+      }),
+    ]);
+  });
+
+  it("checks a value against the type it names", () => {
+    const result = PatchPageBodySchema.safeParse({
+      properties: { Done: { type: "checkbox", checkbox: "yes" } },
+    });
+
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        expected: "boolean",
+        path: ["properties", "Done", "checkbox"],
+      }),
+    ]);
+  });
+
+  it("names the property types for a value of no known type", () => {
+    const result = PatchPageBodySchema.safeParse({
+      properties: { Done: { formula: "1 + 1" } },
+    });
+
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        code: "invalid_union_discriminator",
+        path: ["properties", "Done", "type"],
+      }),
+    ]);
+  });
+});
+
+describe("text links", () => {
+  const parse = (url: string) =>
+    PatchPageBodySchema.safeParse({
+      properties: { title: richText("Link", url) },
+    }).success;
+
+  it("accepts absolute URLs and Notion's relative page links", () => {
+    expect(parse("https://example.com/docs")).toBe(true);
+    expect(parse("/1a2b3c4d5e6f40718293a4b5c6d7e8f9")).toBe(true);
+  });
+
+  it("rejects anything else", () => {
+    expect(parse("example.com/docs")).toBe(false);
+  });
+});
+
+describe("database parents", () => {
+  const parse = (parent: Record<string, unknown>) =>
+    CreateDatabaseSchema.parse({ parent, properties: { Name: { title: {} } } })
+      .parent;
+
+  it.each([
+    ["without a type", { page_id: PARENT_ID }],
+    ["with Notion's type", { type: "page_id", page_id: PARENT_ID }],
+  ])("accepts a page parent %s", (_, parent) => {
+    expect(parse(parent)).toEqual({ type: "page_id", page_id: PARENT_ID });
+  });
+});
+
+describe("page parents", () => {
+  const parse = (parent: Record<string, unknown>) =>
+    CreatePageSchema.safeParse({ parent, properties: {} });
+
+  it.each([
+    { page_id: PARENT_ID },
+    { type: "page_id", page_id: PARENT_ID },
+    { database_id: PARENT_ID },
+    { type: "database_id", database_id: PARENT_ID },
+  ])("accepts %o", (parent) => {
+    expect(parse(parent).success).toBe(true);
+  });
+
+  it("rejects a type that doesn't match the id", () => {
+    expect(parse({ type: "database_id", page_id: PARENT_ID }).success).toBe(
+      false
+    );
+  });
+});
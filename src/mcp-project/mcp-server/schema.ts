@@ -1,10 +1,172 @@
 import { z } from "zod";
+import {
+  BLOCK_TREE_MAX_BLOCKS,
+  BLOCK_TREE_MAX_DEPTH,
+  DEFAULT_EVENT_STORE,
+  DEFAULT_EVENT_STORE_DIR,
+  DEFAULT_FETCH_ALL_MAX_ITEMS,
+  DEFAULT_LOG_LEVEL,
+  DEFAULT_PORT,
+  DEFAULT_TRANSPORT,
+  EXPORT_PAGE_MAX_BLOCKS_LIMIT,
+  EXPORT_PAGE_MAX_DEPTH_LIMIT,
+  FETCH_ALL_MAX_ITEMS_LIMIT,
+  NOTION_BASE_URL,
+  NOTION_MAX_RICH_TEXT_LENGTH,
+  NOTION_TOOL_NAMES,
+} from "./constants.js";
+import { invalidNotionIdMessage, parseNotionId } from "./notion-id.js";
 
 export const transportSchema = z.enum(["stdio", "httpstream"] as const);
 
 export const portSchema = z.number().int().positive();
 
-export const authTokenSchema = z.string().uuid();
+// Integration tokens look like `ntn_…` (older ones `secret_…`), their format is up to Notion
+export const authTokenSchema = z.string().min(1);
+
+export const gatewayTokenSchema = z.string().min(1);
+
+export const sessionNotionTokenSchema = z.string().min(1);
+
+export const logLevelSchema = z.enum([
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+] as const);
+
+export const toolNameSchema = z.enum(NOTION_TOOL_NAMES);
+
+export const eventStoreSchema = z.enum(["none", "memory", "file"] as const);
+
+// ⚙️ server config ⚙️
+// Every setting can come from the config file, the environment or a CLI flag, see `parseArgs`
+export const ConfigSchema = z.object({
+  transport: transportSchema
+    .default(DEFAULT_TRANSPORT)
+    .describe("How clients connect to the server"),
+  port: portSchema
+    .default(DEFAULT_PORT)
+    .describe("The HTTP port, used by the httpstream transport"),
+  authToken: authTokenSchema
+    .optional()
+    .describe(
+      "The Notion integration token, from https://www.notion.so/my-integrations"
+    ),
+  gatewayToken: gatewayTokenSchema
+    .optional()
+    .describe(
+      "The Bearer token clients send to /mcp. Defaults to the Notion token outside multi-tenant mode"
+    ),
+  multiTenant: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Each session sends its own Notion token instead of using the configured one"
+    ),
+  stateless: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Handle every HTTP request with a fresh server, without mcp-session-id. Clients are never asked to confirm trash-page and delete-a-block, since no initialize tells the server they can be"
+    ),
+  eventStore: eventStoreSchema
+    .default(DEFAULT_EVENT_STORE)
+    .describe("Where events are kept so clients can resume a dropped stream"),
+  eventStoreDir: z
+    .string()
+    .min(1)
+    .default(DEFAULT_EVENT_STORE_DIR)
+    .describe("The directory of the file event store"),
+  logLevel: logLevelSchema
+    .default(DEFAULT_LOG_LEVEL)
+    .describe("The minimum level of the log lines written by the server"),
+  readOnly: z
+    .boolean()
+    .default(false)
+    .describe("Only register the tools that read from Notion"),
+  tools: z
+    .array(toolNameSchema)
+    .min(1)
+    .optional()
+    .describe(
+      "Only register these tools, comma-separated. Combined with read-only mode, only the read tools among them"
+    ),
+  notionBaseUrl: z
+    .string()
+    .url()
+    .default(NOTION_BASE_URL)
+    .describe(
+      "The origin of the Notion API, e.g. a local stand-in for offline testing"
+    ),
+  auditLog: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "A JSON lines file that every call of a tool writing to Notion is appended to. No audit log when unset"
+    ),
+  auditRedact: z
+    .array(z.string().min(1))
+    .default([])
+    .describe(
+      'Argument keys whose values are replaced in the audit log, at any depth, e.g. "properties,rich_text"'
+    ),
+  auditPrevious: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Also record in the audit log the fields a write changes as they were before it, at the cost of one more Notion request per call"
+    ),
+});
+
+// Every page, database and block id, normalised from whatever the user pasted (see `notion-id.ts`)
+function notionIdSchema(
+  description: string,
+  options: { preferFragment?: boolean } = {}
+) {
+  return z
+    .string()
+    .transform((value, ctx) => {
+      const id = parseNotionId(value, options);
+
+      if (!id) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: invalidNotionIdMessage(value),
+        });
+        return z.NEVER;
+      }
+
+      return id;
+    })
+    .describe(
+      `${description} Accepts the ID with or without dashes, or a link to it.`
+    );
+}
+
+// Shared by the list endpoints that can follow cursors server-side
+const FetchAllSchema = {
+  fetch_all: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Set to true to follow `next_cursor` on the server and return every result (up to `max_items`) in one response."
+    ),
+  max_items: z
+    .number()
+    .int()
+    .min(1)
+    .max(FETCH_ALL_MAX_ITEMS_LIMIT)
+    .default(DEFAULT_FETCH_ALL_MAX_ITEMS)
+    .describe(
+      `The maximum number of results collected when \`fetch_all\` is true. If more remain, \`has_more\` is true and \`next_cursor\` can be used to continue. Maximum: \`${FETCH_ALL_MAX_ITEMS_LIMIT}\`.`
+    ),
+};
 
 // 🔦 search tool 🔦
 
@@ -68,13 +230,14 @@ export const SearchRequestSchema = {
     .describe(
       "The number of items from the full list to include in the response. Maximum: `100`."
     ),
+  ...FetchAllSchema,
 };
 
 // 📕 page tools 📕
 
 // Shared path parameter schema
 const PageIdParamSchema = {
-  page_id: z.string().describe("Identifier for a Notion page"),
+  page_id: notionIdSchema("Identifier for a Notion page."),
 };
 
 // GET /v1/pages/{page_id} schemas
@@ -89,49 +252,252 @@ export const GetPageQuerySchema = z.object({
     ),
 });
 
+// export-page: GET /v1/pages/{page_id}, then the block tree under it
+export const ExportPageParamsSchema = {
+  ...PageIdParamSchema,
+  max_depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(EXPORT_PAGE_MAX_DEPTH_LIMIT)
+    .default(BLOCK_TREE_MAX_DEPTH)
+    .describe(
+      `How many levels of nested blocks to fetch. Maximum: \`${EXPORT_PAGE_MAX_DEPTH_LIMIT}\`.`
+    ),
+  max_blocks: z
+    .number()
+    .int()
+    .min(1)
+    .max(EXPORT_PAGE_MAX_BLOCKS_LIMIT)
+    .default(BLOCK_TREE_MAX_BLOCKS)
+    .describe(
+      `Stop after fetching this many blocks. The result says when the export was truncated. Maximum: \`${EXPORT_PAGE_MAX_BLOCKS_LIMIT}\`.`
+    ),
+};
+
 // PATCH /v1/pages/{page_id} schemas
 export const PatchPageParamsSchema = z.object({
-  page_id: z
-    .string()
-    .describe("The identifier for the Notion page to be updated."),
+  page_id: notionIdSchema("The identifier for the Notion page to be updated."),
 });
 
-// Reusable rich text schemas (similar to block children)
+// Reusable rich text schemas, shared with block children and database titles
+// https://developers.notion.com/reference/rich-text
+const ColorSchema = z.enum([
+  "default",
+  "gray",
+  "brown",
+  "orange",
+  "yellow",
+  "green",
+  "blue",
+  "purple",
+  "pink",
+  "red",
+  "gray_background",
+  "brown_background",
+  "orange_background",
+  "yellow_background",
+  "green_background",
+  "blue_background",
+  "purple_background",
+  "pink_background",
+  "red_background",
+]);
+
+const AnnotationsSchema = z
+  .object({
+    bold: z.boolean(),
+    italic: z.boolean(),
+    strikethrough: z.boolean(),
+    underline: z.boolean(),
+    code: z.boolean(),
+    color: ColorSchema,
+  })
+  .partial()
+  .strict();
+
+// Links to other Notion pages come back relative, e.g. `/1a2b3c...`
 const LinkSchema = z
   .object({
-    url: z.string(),
+    url: z
+      .string()
+      .refine(
+        (url) => url.startsWith("/") || z.string().url().safeParse(url).success,
+        { message: "Expected an absolute URL or a path starting with `/`" }
+      ),
   })
+  .strict()
   .nullable();
 
 const TextSchema = z
   .object({
-    content: z.string(),
-    link: LinkSchema,
+    content: z.string().max(NOTION_MAX_RICH_TEXT_LENGTH),
+    link: LinkSchema.optional(),
   })
   .strict();
 
-const RichTextItemSchema = z
+const IsoDateSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), {
+    message:
+      "Expected an ISO 8601 date, e.g. `2025-01-31` or `2025-01-31T09:00:00Z`",
+  });
+
+const DateValueSchema = z
   .object({
-    text: TextSchema,
-    type: z.literal("text"),
+    start: IsoDateSchema,
+    end: IsoDateSchema.nullable().optional(),
+    time_zone: z.string().nullable().optional(),
   })
   .strict();
 
-// Title property schema (which is an array of rich text items)
-const TitlePropertySchema = z
-  .object({
-    type: z.literal("title"),
-    title: z.array(RichTextItemSchema).max(100),
-  })
+const ObjectReferenceSchema = z
+  .object({ id: notionIdSchema("The ID of a page or database.") })
   .strict();
 
-// Properties schema - this is more flexible since properties can vary
-// but includes the specific title property structure shown in the spec
+const MentionSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("user"),
+      user: z.object({ id: z.string(), object: z.literal("user").optional() }),
+    })
+    .strict(),
+  z.object({ type: z.literal("page"), page: ObjectReferenceSchema }).strict(),
+  z
+    .object({ type: z.literal("database"), database: ObjectReferenceSchema })
+    .strict(),
+  z.object({ type: z.literal("date"), date: DateValueSchema }).strict(),
+  z
+    .object({
+      type: z.literal("link_preview"),
+      link_preview: z.object({ url: z.string().url() }).strict(),
+    })
+    .strict(),
+]);
+
+// Fields Notion returns on every rich text item; accepted so a read value can be written back
+const RichTextCommonFields = {
+  annotations: AnnotationsSchema.optional(),
+  plain_text: z.string().optional(),
+  href: z.string().nullable().optional(),
+};
+
+const RichTextItemSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("text"),
+      text: TextSchema,
+      ...RichTextCommonFields,
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("mention"),
+      mention: MentionSchema,
+      ...RichTextCommonFields,
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("equation"),
+      equation: z.object({ expression: z.string() }).strict(),
+      ...RichTextCommonFields,
+    })
+    .strict(),
+]);
+
+const RichTextArraySchema = z.array(RichTextItemSchema).max(100);
+
+// Property values, one per writable property type
+// https://developers.notion.com/reference/page-property-values
+function propertyValue<T extends string, S extends z.ZodTypeAny>(
+  type: T,
+  value: S
+) {
+  return z
+    .object({
+      id: z.string().optional(),
+      type: z.literal(type),
+      ...({ [type]: value } as { [K in T]: S }),
+    })
+    .strict();
+}
+
+// `type` may be left out since the value's key names it; filling it in from that key
+// lets the union check the one matching type, so an error names only that type
+function withPropertyType(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  if ("type" in value) {
+    return value;
+  }
+
+  const keys = Object.keys(value).filter((key) => key !== "id");
+
+  return keys.length === 1 ? { ...value, type: keys[0] } : value;
+}
+
+// Options are referenced by name or id; names can't contain commas
+const SelectValueSchema = z.union([
+  z
+    .object({
+      name: z.string().regex(/^[^,]*$/, "Option names can't contain commas"),
+      id: z.string().optional(),
+    })
+    .strict(),
+  z.object({ id: z.string() }).strict(),
+]);
+
+const UserReferenceSchema = z
+  .object({ id: z.string(), object: z.literal("user").optional() })
+  .strict();
+
+const FileValueSchema = z.union([
+  z
+    .object({
+      name: z.string(),
+      type: z.literal("external").optional(),
+      external: z.object({ url: z.string().url() }).strict(),
+    })
+    .strict(),
+  z
+    .object({
+      name: z.string().optional(),
+      type: z.literal("file_upload").optional(),
+      file_upload: z.object({ id: z.string() }).strict(),
+    })
+    .strict(),
+]);
+
+const PropertyValueSchema = z.preprocess(
+  withPropertyType,
+  z.discriminatedUnion("type", [
+    propertyValue("title", RichTextArraySchema),
+    propertyValue("rich_text", RichTextArraySchema),
+    propertyValue("number", z.number().nullable()),
+    propertyValue("select", SelectValueSchema.nullable()),
+    propertyValue("multi_select", z.array(SelectValueSchema)),
+    propertyValue("status", SelectValueSchema.nullable()),
+    propertyValue("date", DateValueSchema.nullable()),
+    propertyValue("people", z.array(UserReferenceSchema)),
+    propertyValue("checkbox", z.boolean()),
+    propertyValue("url", z.string().url().nullable()),
+    propertyValue("email", z.string().email().nullable()),
+    propertyValue("phone_number", z.string().nullable()),
+    propertyValue("relation", z.array(ObjectReferenceSchema)),
+    propertyValue("files", z.array(FileValueSchema)),
+  ])
+);
+
+// Keyed by property name or ID, e.g. `{ "Done": { "checkbox": true } }`
 const PropertiesSchema = z
   .object({
-    title: z.array(RichTextItemSchema).max(100),
+    // the shorthand for title properties, e.g. `{ "title": [{ "type": "text", ... }] }`
+    title: z.union([PropertyValueSchema, RichTextArraySchema]).optional(),
   })
-  .catchall(z.any()) // Allows additional properties with any value
+  .catchall(PropertyValueSchema)
   .describe(
     "The property values to update for the page. The keys are the names or IDs of the property and the values are property values. If a page property ID is not included, then it is not changed."
   );
@@ -176,21 +542,381 @@ export const PatchPageBodySchema = z.object({
   cover: CoverSchema.optional(),
 });
 
+// PATCH /v1/pages/{page_id} with `in_trash` set
+export const TrashPageParamsSchema = PageIdParamSchema;
+
+export const RestorePageParamsSchema = PageIdParamSchema;
+
+// 🗄️ database tools 🗄️
+
+// Shared path parameter schema
+const DatabaseIdParamSchema = {
+  database_id: notionIdSchema("Identifier for a Notion database."),
+};
+
+// GET /v1/databases/{database_id}
+export const GetDatabaseParamsSchema = DatabaseIdParamSchema;
+
+// POST /v1/databases/{database_id}/query schemas
+export const QueryDatabaseParamsSchema = z.object(DatabaseIdParamSchema);
+
+// Filter conditions, one per property type
+// https://developers.notion.com/reference/post-database-query-filter
+const TextFilterConditionSchema = z
+  .object({
+    equals: z.string(),
+    does_not_equal: z.string(),
+    contains: z.string(),
+    does_not_contain: z.string(),
+    starts_with: z.string(),
+    ends_with: z.string(),
+    is_empty: z.literal(true),
+    is_not_empty: z.literal(true),
+  })
+  .partial()
+  .strict();
+
+const NumberFilterConditionSchema = z
+  .object({
+    equals: z.number(),
+    does_not_equal: z.number(),
+    greater_than: z.number(),
+    less_than: z.number(),
+    greater_than_or_equal_to: z.number(),
+    less_than_or_equal_to: z.number(),
+    is_empty: z.literal(true),
+    is_not_empty: z.literal(true),
+  })
+  .partial()
+  .strict();
+
+const CheckboxFilterConditionSchema = z
+  .object({
+    equals: z.boolean(),
+    does_not_equal: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+const SelectFilterConditionSchema = z
+  .object({
+    equals: z.string(),
+    does_not_equal: z.string(),
+    is_empty: z.literal(true),
+    is_not_empty: z.literal(true),
+  })
+  .partial()
+  .strict();
+
+const MultiSelectFilterConditionSchema = z
+  .object({
+    contains: z.string(),
+    does_not_contain: z.string(),
+    is_empty: z.literal(true),
+    is_not_empty: z.literal(true),
+  })
+  .partial()
+  .strict();
+
+const EmptyObjectSchema = z.object({}).strict();
+
+const DateFilterConditionSchema = z
+  .object({
+    equals: z.string(),
+    before: z.string(),
+    after: z.string(),
+    on_or_before: z.string(),
+    on_or_after: z.string(),
+    is_empty: z.literal(true),
+    is_not_empty: z.literal(true),
+    past_week: EmptyObjectSchema,
+    past_month: EmptyObjectSchema,
+    past_year: EmptyObjectSchema,
+    this_week: EmptyObjectSchema,
+    next_week: EmptyObjectSchema,
+    next_month: EmptyObjectSchema,
+    next_year: EmptyObjectSchema,
+  })
+  .partial()
+  .strict()
+  .describe(
+    "Dates are ISO 8601 strings, e.g. `2021-05-10` or `2021-05-10T12:00:00Z`."
+  );
+
+const PropertyFilterSchema = z
+  .union([
+    z.object({ property: z.string(), title: TextFilterConditionSchema }),
+    z.object({ property: z.string(), rich_text: TextFilterConditionSchema }),
+    z.object({ property: z.string(), url: TextFilterConditionSchema }),
+    z.object({ property: z.string(), email: TextFilterConditionSchema }),
+    z.object({ property: z.string(), phone_number: TextFilterConditionSchema }),
+    z.object({ property: z.string(), number: NumberFilterConditionSchema }),
+    z.object({ property: z.string(), checkbox: CheckboxFilterConditionSchema }),
+    z.object({ property: z.string(), select: SelectFilterConditionSchema }),
+    z.object({ property: z.string(), status: SelectFilterConditionSchema }),
+    z.object({
+      property: z.string(),
+      multi_select: MultiSelectFilterConditionSchema,
+    }),
+    z.object({
+      property: z.string(),
+      people: MultiSelectFilterConditionSchema,
+    }),
+    z.object({
+      property: z.string(),
+      relation: MultiSelectFilterConditionSchema,
+    }),
+    z.object({ property: z.string(), date: DateFilterConditionSchema }),
+  ])
+  .describe(
+    "A filter on a single database property. `property` is the name or ID of the property, and the other key is the property type holding the filter condition."
+  );
+
+const TimestampFilterSchema = z
+  .union([
+    z.object({
+      timestamp: z.literal("created_time"),
+      created_time: DateFilterConditionSchema,
+    }),
+    z.object({
+      timestamp: z.literal("last_edited_time"),
+      last_edited_time: DateFilterConditionSchema,
+    }),
+  ])
+  .describe("A filter on the page's `created_time` or `last_edited_time`.");
+
+const LeafFilterSchema = z.union([PropertyFilterSchema, TimestampFilterSchema]);
+
+// Notion only allows compound filters to be nested two levels deep
+const NestedCompoundFilterSchema = z.union([
+  z.object({ and: z.array(LeafFilterSchema).max(100) }).strict(),
+  z.object({ or: z.array(LeafFilterSchema).max(100) }).strict(),
+]);
+
+const CompoundFilterSchema = z.union([
+  z
+    .object({
+      and: z
+        .array(z.union([LeafFilterSchema, NestedCompoundFilterSchema]))
+        .max(100),
+    })
+    .strict(),
+  z
+    .object({
+      or: z
+        .array(z.union([LeafFilterSchema, NestedCompoundFilterSchema]))
+        .max(100),
+    })
+    .strict(),
+]);
+
+const DatabaseFilterSchema = z
+  .union([LeafFilterSchema, CompoundFilterSchema])
+  .describe(
+    "When supplied, limits which pages are returned based on the [filter conditions](https://developers.notion.com/reference/post-database-query-filter). Combine filters with `and` / `or` (nested up to two levels deep)."
+  );
+
+const DatabaseSortSchema = z
+  .union([
+    z
+      .object({
+        property: z.string().describe("The name or ID of the property."),
+        direction: z.enum(["ascending", "descending"]),
+      })
+      .strict(),
+    z
+      .object({
+        timestamp: z.enum(["created_time", "last_edited_time"]),
+        direction: z.enum(["ascending", "descending"]),
+      })
+      .strict(),
+  ])
+  .describe("Sort by a property or by a page timestamp.");
+
+export const QueryDatabaseBodySchema = z.object({
+  filter: DatabaseFilterSchema.optional(),
+  sorts: z
+    .array(DatabaseSortSchema)
+    .optional()
+    .describe(
+      "When supplied, orders the results based on the provided [sort criteria](https://developers.notion.com/reference/post-database-query-sort). Earlier sorts take precedence."
+    ),
+  start_cursor: z
+    .string()
+    .optional()
+    .describe(
+      "The `next_cursor` value returned in a previous response. If supplied, limits the response to results starting after the cursor. If not supplied, then the first page of results is returned."
+    ),
+  page_size: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(100)
+    .describe(
+      "The number of items from the full list to include in the response. Maximum: `100`."
+    ),
+});
+
+// POST /v1/databases schemas
+
+const SelectOptionSchema = z
+  .object({
+    name: z.string(),
+    color: z
+      .enum([
+        "default",
+        "gray",
+        "brown",
+        "orange",
+        "yellow",
+        "green",
+        "blue",
+        "purple",
+        "pink",
+        "red",
+      ])
+      .optional(),
+  })
+  .strict();
+
+// Property schema objects describe the columns of a database (not their values)
+const PropertySchemaConfigSchema = z
+  .union([
+    z.object({ title: EmptyObjectSchema }).strict(),
+    z.object({ rich_text: EmptyObjectSchema }).strict(),
+    z
+      .object({
+        number: z
+          .object({
+            format: z
+              .enum([
+                "number",
+                "number_with_commas",
+                "percent",
+                "dollar",
+                "euro",
+                "pound",
+                "yen",
+                "rupee",
+                "won",
+                "yuan",
+              ])
+              .optional(),
+          })
+          .strict(),
+      })
+      .strict(),
+    z
+      .object({
+        select: z.object({ options: z.array(SelectOptionSchema) }).strict(),
+      })
+      .strict(),
+    z
+      .object({
+        multi_select: z
+          .object({ options: z.array(SelectOptionSchema) })
+          .strict(),
+      })
+      .strict(),
+    z.object({ date: EmptyObjectSchema }).strict(),
+    z.object({ people: EmptyObjectSchema }).strict(),
+    z.object({ files: EmptyObjectSchema }).strict(),
+    z.object({ checkbox: EmptyObjectSchema }).strict(),
+    z.object({ url: EmptyObjectSchema }).strict(),
+    z.object({ email: EmptyObjectSchema }).strict(),
+    z.object({ phone_number: EmptyObjectSchema }).strict(),
+    z.object({ created_time: EmptyObjectSchema }).strict(),
+    z.object({ created_by: EmptyObjectSchema }).strict(),
+    z.object({ last_edited_time: EmptyObjectSchema }).strict(),
+    z.object({ last_edited_by: EmptyObjectSchema }).strict(),
+  ])
+  .describe(
+    'A [property schema object](https://developers.notion.com/reference/property-schema-object), e.g. `{ "rich_text": {} }` or `{ "select": { "options": [{ "name": "Done" }] } }`.'
+  );
+
+export const CreateDatabaseRequestSchema = {
+  parent: z
+    .object({
+      // optional, like create-a-page's, so a parent object read from Notion fits as is
+      type: z.literal("page_id").default("page_id"),
+      page_id: notionIdSchema("The ID of the parent page."),
+    })
+    .strict()
+    .describe(
+      'The parent page of the new database, e.g. `{ "page_id": "..." }`.'
+    ),
+  title: z
+    .array(RichTextItemSchema)
+    .max(100)
+    .optional()
+    .describe("Title of the database as it appears in Notion."),
+  properties: z
+    .record(PropertySchemaConfigSchema)
+    .describe(
+      "Property schema of the database. The keys are the names of properties as they appear in Notion. Exactly one property must be a `title` property."
+    ),
+  is_inline: z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether the database is displayed inline in the parent page. Defaults to `false`."
+    ),
+  icon: IconSchema.optional(),
+  cover: CoverSchema.optional(),
+};
+
 // 🧱 block tools 🧱
 
 // Shared path parameter schema
 const BlockIdParamSchema = {
-  block_id: z.string().describe("Identifier for a Notion block"),
+  block_id: notionIdSchema("Identifier for a Notion block.", {
+    preferFragment: true,
+  }),
 };
 
+const BlockFormatSchema = z
+  .enum(["json", "markdown"])
+  .default("json")
+  .describe(
+    "`json` returns the raw Notion objects. `markdown` also fetches the nested children and renders the content as Markdown, which is much more compact."
+  );
+
 // GET /v1/blocks/{block_id}
-export const GetBlockParamsSchema = BlockIdParamSchema;
+export const GetBlockParamsSchema = {
+  ...BlockIdParamSchema,
+  format: BlockFormatSchema,
+};
+
+// GET /v1/blocks/{block_id}/children
+export const GetBlockChildrenParamsSchema = {
+  ...BlockIdParamSchema,
+  start_cursor: z
+    .string()
+    .optional()
+    .describe(
+      "The `next_cursor` value returned in a previous response. If supplied, limits the response to results starting after the cursor. If not supplied, then the first page of results is returned."
+    ),
+  page_size: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(100)
+    .describe(
+      "The number of items from the full list to include in the response. Maximum: `100`."
+    ),
+  ...FetchAllSchema,
+  format: BlockFormatSchema.describe(
+    "`json` returns the raw Notion objects. `markdown` walks all nested children and renders them as Markdown, which is much more compact; pagination options are ignored in this mode."
+  ),
+};
 
 // DELETE /v1/blocks/{block_id}
 export const DeleteBlockParamsSchema = BlockIdParamSchema;
 
 // PATCH /v1/blocks/{block_id}
-export const PatchBlockParamsSchema = BlockIdParamSchema;
+export const PatchBlockParamsSchema = z.object(BlockIdParamSchema);
 
 // For the PATCH request body, the 'type' field is described as a generic object
 // with properties to be updated. Since the OpenAPI spec shows an empty properties object,
@@ -248,3 +974,347 @@ export const PatchBlockBodyStrictSchema = z.object({
       "Set to true to archive (delete) a block. Set to false to un-archive (restore) a block."
     ),
 });
+
+// 📝 block children tools 📝
+
+export const CodeLanguageSchema = z.enum([
+  "abap",
+  "arduino",
+  "bash",
+  "basic",
+  "c",
+  "clojure",
+  "coffeescript",
+  "c++",
+  "c#",
+  "css",
+  "dart",
+  "diff",
+  "docker",
+  "elixir",
+  "elm",
+  "erlang",
+  "flow",
+  "fortran",
+  "f#",
+  "gherkin",
+  "glsl",
+  "go",
+  "graphql",
+  "groovy",
+  "haskell",
+  "html",
+  "java",
+  "javascript",
+  "json",
+  "julia",
+  "kotlin",
+  "latex",
+  "less",
+  "lisp",
+  "livescript",
+  "lua",
+  "makefile",
+  "markdown",
+  "markup",
+  "matlab",
+  "mermaid",
+  "nix",
+  "objective-c",
+  "ocaml",
+  "pascal",
+  "perl",
+  "php",
+  "plain text",
+  "powershell",
+  "prolog",
+  "protobuf",
+  "python",
+  "r",
+  "reason",
+  "ruby",
+  "rust",
+  "sass",
+  "scala",
+  "scheme",
+  "scss",
+  "shell",
+  "sql",
+  "swift",
+  "typescript",
+  "vb.net",
+  "verilog",
+  "vhdl",
+  "visual basic",
+  "webassembly",
+  "xml",
+  "yaml",
+  "java/c/c++/c#",
+]);
+
+/**
+ * Builds the union of supported block objects.
+ * Notion accepts up to two levels of nesting per request, so the top level
+ * blocks take `childrenSchema` while the nested ones take none.
+ */
+function createBlockObjectSchema(childrenSchema?: z.ZodTypeAny) {
+  const children: z.ZodRawShape = childrenSchema
+    ? { children: childrenSchema.optional() }
+    : {};
+
+  const textBlockContent = z
+    .object({
+      rich_text: RichTextArraySchema,
+      color: ColorSchema.optional(),
+      ...children,
+    })
+    .strict();
+
+  const headingContent = z
+    .object({
+      rich_text: RichTextArraySchema,
+      color: ColorSchema.optional(),
+      is_toggleable: z.boolean().optional(),
+    })
+    .strict();
+
+  return z.discriminatedUnion("type", [
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("paragraph"),
+        paragraph: textBlockContent,
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("heading_1"),
+        heading_1: headingContent,
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("heading_2"),
+        heading_2: headingContent,
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("heading_3"),
+        heading_3: headingContent,
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("bulleted_list_item"),
+        bulleted_list_item: textBlockContent,
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("numbered_list_item"),
+        numbered_list_item: textBlockContent,
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("to_do"),
+        to_do: z
+          .object({
+            rich_text: RichTextArraySchema,
+            checked: z.boolean().optional(),
+            color: ColorSchema.optional(),
+            ...children,
+          })
+          .strict(),
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("code"),
+        code: z
+          .object({
+            rich_text: RichTextArraySchema,
+            language: CodeLanguageSchema,
+            caption: RichTextArraySchema.optional(),
+          })
+          .strict(),
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("quote"),
+        quote: textBlockContent,
+      })
+      .strict(),
+    z
+      .object({
+        object: z.literal("block").optional(),
+        type: z.literal("divider"),
+        divider: z.object({}).strict(),
+      })
+      .strict(),
+  ]);
+}
+
+const NestedBlockObjectSchema = createBlockObjectSchema();
+
+export const BlockObjectSchema = createBlockObjectSchema(
+  z.array(NestedBlockObjectSchema).max(100)
+).describe(
+  "A [block object](https://developers.notion.com/reference/block). Supported types are `paragraph`, `heading_1`, `heading_2`, `heading_3`, `bulleted_list_item`, `numbered_list_item`, `to_do`, `code`, `quote` and `divider`. The content lives under the key named after the `type`."
+);
+
+const BlockChildrenSchema = z.array(BlockObjectSchema).max(100);
+
+// PATCH /v1/blocks/{block_id}/children
+export const AppendBlockChildrenParamsSchema = z.object({
+  block_id: notionIdSchema(
+    "Identifier for a block. Also accepts a page ID, to append to the page's content.",
+    { preferFragment: true }
+  ),
+});
+
+export const AppendBlockChildrenBodySchema = z.object({
+  children: BlockChildrenSchema.min(1).describe(
+    "Child content to append to a container block as an array of block objects. Maximum: `100`."
+  ),
+  after: notionIdSchema(
+    "The ID of the existing block that the new block should be appended after.",
+    { preferFragment: true }
+  ).optional(),
+});
+
+// append-markdown: PATCH /v1/blocks/{block_id}/children with blocks parsed from Markdown
+export const AppendMarkdownParamsSchema = AppendBlockChildrenParamsSchema;
+
+export const AppendMarkdownBodySchema = z.object({
+  markdown: z
+    .string()
+    .min(1)
+    .describe(
+      "The Markdown to append. Supports headings, nested bulleted/numbered lists, `- [ ]` checkboxes, code fences, quotes, dividers and paragraphs, with **bold**, _italic_, ~~strikethrough~~, `code` and [links](https://example.com) inline."
+    ),
+  after: notionIdSchema(
+    "The ID of the existing block that the new content should be appended after.",
+    { preferFragment: true }
+  ).optional(),
+});
+
+// 📕 POST /v1/pages (declared after the block objects it uses as initial children)
+
+// `type` is optional, so the parent objects Notion returns can be passed back as they are
+const PageParentSchema = z
+  .union([
+    z
+      .object({
+        type: z.literal("page_id").optional(),
+        page_id: notionIdSchema("The ID of the parent page."),
+      })
+      .strict(),
+    z
+      .object({
+        type: z.literal("database_id").optional(),
+        database_id: notionIdSchema("The ID of the parent database."),
+      })
+      .strict(),
+  ])
+  .describe(
+    'The parent page or database where the new page is inserted, e.g. `{ "page_id": "..." }` or `{ "database_id": "..." }`.'
+  );
+
+export const CreatePageRequestSchema = {
+  parent: PageParentSchema,
+  properties: PropertiesSchema.describe(
+    'The values of the page\'s properties. If the parent is a page, the only valid key is `title`, e.g. `{ "title": [{ "type": "text", "text": { "content": "My page", "link": null } }] }`. If the parent is a database, the keys must match the parent database\'s properties.'
+  ),
+  children: BlockChildrenSchema.optional().describe(
+    "The content to be rendered on the new page, represented as an array of block objects. Maximum: `100`."
+  ),
+  icon: IconSchema.optional(),
+  cover: CoverSchema.optional(),
+};
+
+// 📤 tool output schemas 📤
+// Declared as `outputSchema` so hosts can validate `structuredContent`.
+// Only the fields every object has are listed; the rest of Notion's response passes through
+// (`registerTool` in `tools.ts` opens the top-level objects, nested ones are `passthrough` here).
+
+const NotionParentSchema = z
+  .object({ type: z.string() })
+  .passthrough()
+  .describe("Where the object lives: a workspace, page, database or block");
+
+// https://developers.notion.com/reference/page
+export const PageOutputSchema = {
+  object: z.literal("page"),
+  id: z.string(),
+  created_time: z.string(),
+  last_edited_time: z.string(),
+  archived: z.boolean(),
+  in_trash: z.boolean().optional(),
+  url: z.string(),
+  parent: NotionParentSchema,
+  properties: z
+    .record(z.object({ id: z.string(), type: z.string() }).passthrough())
+    .describe("The page property values, keyed by property name"),
+};
+
+// https://developers.notion.com/reference/block
+export const BlockOutputSchema = {
+  object: z.literal("block"),
+  id: z.string(),
+  type: z.string(),
+  created_time: z.string(),
+  last_edited_time: z.string(),
+  archived: z.boolean(),
+  in_trash: z.boolean().optional(),
+  has_children: z.boolean(),
+  parent: NotionParentSchema,
+};
+
+export const ExportPageOutputSchema = {
+  page: z.object(PageOutputSchema).passthrough(),
+  markdown: z.string().describe("The page title and content, as Markdown"),
+  blocks: z
+    .array(
+      z
+        .object({
+          object: z.literal("block"),
+          id: z.string(),
+          type: z.string(),
+        })
+        .passthrough()
+    )
+    .describe(
+      "The top-level blocks of the page, each with its nested blocks in `children`"
+    ),
+  blockCount: z.number().int().describe("The number of blocks fetched"),
+  truncated: z
+    .boolean()
+    .describe("True when `max_depth` or `max_blocks` stopped the export early"),
+};
+
+// https://developers.notion.com/reference/intro#pagination
+export const ListOutputSchema = {
+  object: z.literal("list"),
+  results: z.array(
+    z
+      .object({ object: z.string(), id: z.string() })
+      .passthrough()
+      .describe("A page, database or block object")
+  ),
+  next_cursor: z
+    .string()
+    .nullable()
+    .describe("Pass as `start_cursor` to fetch the next page of results"),
+  has_more: z.boolean(),
+};
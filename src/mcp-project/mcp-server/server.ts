@@ -1,15 +1,29 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { registerTool } from "./tools.js";
+import { SERVER_NAME, SERVER_VERSION } from "./constants.js";
+import { forwardToMcpClient, logger } from "./logger.js";
+import { registerResource } from "./resources.js";
+import { registerTool, ToolAccess } from "./tools.js";
 
-export function initServer(options: { authToken: string }): McpServer {
-  const { authToken } = options;
+export function initServer(options: {
+  authToken: string;
+  toolAccess?: ToolAccess;
+  // added to every line the server logs, unknown in stdio and stateless mode
+  sessionId?: string;
+}): McpServer {
+  const { authToken, toolAccess, sessionId } = options;
 
-  const server = new McpServer({
-    name: "notion-mcp-server",
-    version: "0.0.1",
-  });
+  const server = new McpServer(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    { capabilities: { logging: {} } }
+  );
 
-  registerTool(server, { authToken });
+  const log = logger.child({ sessionId }, forwardToMcpClient(server));
+
+  registerTool(server, { authToken, logger: log, toolAccess });
+  registerResource(server, { authToken, logger: log });
 
   return server;
 }
@@ -0,0 +1,67 @@
+/**
+ * One-line descriptions of Notion objects, used to open the text content of tool
+ * results that carry the full object in `structuredContent`.
+ */
+
+export type NotionObject = {
+  object: string;
+  id: string;
+  type?: string;
+  url?: string;
+  archived?: boolean;
+  in_trash?: boolean;
+  has_children?: boolean;
+  title?: { plain_text: string }[];
+  properties?: Record<
+    string,
+    { type: string; title?: { plain_text: string }[] }
+  >;
+};
+
+// Pages keep their title in the `title` typed property, databases in `title`
+export function getTitle(object: NotionObject): string {
+  const richText =
+    object.object === "database"
+      ? object.title
+      : Object.values(object.properties ?? {}).find(
+          (property) => property.type === "title"
+        )?.title;
+
+  return richText?.map((item) => item.plain_text).join("") || "Untitled";
+}
+
+function describe(object: NotionObject): string {
+  const trashed = object.in_trash || object.archived ? " [in trash]" : "";
+
+  if (object.object === "block") {
+    const children = object.has_children ? ", has children" : "";
+    return `block ${object.id} (${object.type})${children}${trashed}`;
+  }
+
+  return `${object.object} ${object.id} "${getTitle(object)}"${trashed}`;
+}
+
+export function summarizeObject(object: NotionObject): string {
+  const summary = describe(object);
+  const capitalized = summary.charAt(0).toUpperCase() + summary.slice(1);
+
+  return object.url ? `${capitalized}\n${object.url}` : capitalized;
+}
+
+export function summarizeList(list: {
+  results: NotionObject[];
+  next_cursor: string | null;
+  has_more: boolean;
+}): string {
+  const { results, next_cursor, has_more } = list;
+
+  const header = `${results.length} result${results.length === 1 ? "" : "s"}${
+    has_more && next_cursor
+      ? `, more available with start_cursor "${next_cursor}"`
+      : ""
+  }`;
+
+  return [header, ...results.map((object) => `- ${describe(object)}`)].join(
+    "\n"
+  );
+}
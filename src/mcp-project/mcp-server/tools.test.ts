@@ -0,0 +1,297 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import express from "express";
+import { FakeObject } from "../fake-notion/store.js";
+import { FakeNotion, startFakeNotion } from "../fake-notion/testing.js";
+import { NOTION_TOOL_NAMES, READ_ONLY_TOOL_NAMES } from "./constants.js";
+import { initServer } from "./server.js";
+import { ToolAccess } from "./tools.js";
+
+const richText = (content: string) => [{ type: "text", text: { content } }];
+
+async function connect(toolAccess?: ToolAccess) {
+  const server = initServer({ authToken: "ntn_test_token", toolAccess });
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return client;
+}
+
+async function listToolNames(toolAccess?: ToolAccess) {
+  const client = await connect(toolAccess);
+  const { tools } = await client.listTools();
+  await client.close();
+
+  return tools.map((tool) => tool.name);
+}
+
+describe("tool access", () => {
+  it("registers every tool in NOTION_TOOL_NAMES, and only those", async () => {
+    expect((await listToolNames()).sort()).toEqual(
+      [...NOTION_TOOL_NAMES].sort()
+    );
+  });
+
+  it("keeps only the read tools in read-only mode", async () => {
+    expect((await listToolNames({ readOnly: true })).sort()).toEqual(
+      [...READ_ONLY_TOOL_NAMES].sort()
+    );
+  });
+
+  it("keeps only the read tools of the allowlist in read-only mode", async () => {
+    const names = await listToolNames({
+      readOnly: true,
+      tools: ["get-a-page", "trash-page"],
+    });
+
+    expect(names).toEqual(["get-a-page"]);
+  });
+
+  it("rejects calls of a tool left out", async () => {
+    const client = await connect({ readOnly: false, tools: ["get-a-page"] });
+
+    await expect(
+      client.callTool({
+        name: "trash-page",
+        arguments: { page_id: "00000000-0000-4000-8000-000000000001" },
+      })
+    ).rejects.toThrow("Tool trash-page not found");
+
+    await client.close();
+  });
+});
+
+// The client checks `structuredContent` against each tool's `outputSchema` from `tools/list`
+describe("structured content", () => {
+  let fake: FakeNotion;
+  let client: Client;
+
+  beforeAll(async () => {
+    fake = await startFakeNotion();
+
+    client = await connect();
+    await client.listTools();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await fake.close();
+  });
+
+  function seed() {
+    const page = fake.store.createPage({
+      parent: { workspace: true },
+      properties: { title: [{ type: "text", text: { content: "Roadmap" } }] },
+      children: [
+        {
+          type: "paragraph",
+          paragraph: {
+            rich_text: [{ type: "text", text: { content: "Hello" } }],
+          },
+        },
+      ],
+    });
+    const database = fake.store.createDatabase({
+      parent: { page_id: page.id },
+      title: [{ type: "text", text: { content: "Tasks" } }],
+      properties: { Name: { title: {} } },
+    });
+    fake.store.createPage({
+      parent: { database_id: database.id },
+      properties: { Name: [{ type: "text", text: { content: "Ship it" } }] },
+    });
+    const [block] = fake.store.listChildren(page.id);
+
+    return { page, database, block };
+  }
+
+  const calls: [
+    string,
+    (seeded: ReturnType<typeof seed>) => Record<string, unknown>,
+  ][] = [
+    ["post-search", () => ({ query: "Roadmap" })],
+    ["get-a-page", ({ page }) => ({ page_id: page.id })],
+    ["export-page", ({ page }) => ({ page_id: page.id })],
+    [
+      "create-a-page",
+      ({ page }) => ({
+        parent: { page_id: page.id },
+        properties: { title: [{ type: "text", text: { content: "Child" } }] },
+      }),
+    ],
+    [
+      "patch-a-page",
+      ({ page }) => ({
+        params: { page_id: page.id },
+        body: {
+          properties: {
+            title: [{ type: "text", text: { content: "Renamed" } }],
+          },
+        },
+      }),
+    ],
+    ["trash-page", ({ page }) => ({ page_id: page.id })],
+    ["restore-page", ({ page }) => ({ page_id: page.id })],
+    [
+      "query-a-database",
+      ({ database }) => ({ params: { database_id: database.id }, body: {} }),
+    ],
+    [
+      "append-block-children",
+      ({ page }) => ({
+        params: { block_id: page.id },
+        body: {
+          children: [
+            {
+              type: "paragraph",
+              paragraph: {
+                rich_text: [{ type: "text", text: { content: "More" } }],
+              },
+            },
+          ],
+        },
+      }),
+    ],
+    [
+      "patch-a-block",
+      ({ block }) => ({ params: { block_id: block.id }, body: {} }),
+    ],
+    ["delete-a-block", ({ block }) => ({ block_id: block.id })],
+  ];
+
+  it.each(calls)("%s matches its output schema", async (name, toArgs) => {
+    const result = await client.callTool({
+      name,
+      arguments: toArgs(seed()),
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.structuredContent).toBeDefined();
+  });
+
+  it("keeps the JSON in the text content", async () => {
+    const { page } = seed();
+
+    const result = await client.callTool({
+      name: "get-a-page",
+      arguments: { page_id: page.id },
+    });
+    const content = result.content as { type: string; text: string }[];
+
+    expect(content.map(({ text }) => text)).toContainEqual(
+      JSON.stringify(result.structuredContent)
+    );
+  });
+});
+
+describe("append-markdown", () => {
+  let fake: FakeNotion;
+  let client: Client;
+  let appended: { parentId: string; children: Record<string, unknown>[] }[];
+
+  beforeAll(async () => {
+    fake = await startFakeNotion({
+      middleware: [
+        express.json(),
+        (req, _res, next) => {
+          const match = req.path.match(/^\/v1\/blocks\/([^/]+)\/children$/);
+
+          if (req.method === "PATCH" && match) {
+            appended.push({ parentId: match[1], children: req.body.children });
+          }
+          next();
+        },
+      ],
+    });
+
+    client = await connect();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await fake.close();
+  });
+
+  beforeEach(() => {
+    appended = [];
+  });
+
+  function textOf(block: FakeObject) {
+    const { rich_text } = block[block.type as string] as {
+      rich_text: { plain_text: string }[];
+    };
+
+    return rich_text.map(({ plain_text }) => plain_text).join("");
+  }
+
+  it("appends deep nesting and more than 100 blocks in order", async () => {
+    const page = fake.store.createPage({ parent: { workspace: true } });
+    const [first] = fake.store.appendBlocks(page.id, [
+      { type: "paragraph", paragraph: { rich_text: richText("First") } },
+      { type: "paragraph", paragraph: { rich_text: richText("Last") } },
+    ]);
+    const paragraphs = Array.from({ length: 120 }, (_, i) => `Paragraph ${i}`);
+
+    const result = await client.callTool({
+      name: "append-markdown",
+      arguments: {
+        params: { block_id: page.id },
+        body: {
+          markdown: [
+            "- Level 1",
+            "  - Level 2",
+            "    - Level 3",
+            "      - Level 4",
+            "",
+            paragraphs.join("\n\n"),
+          ].join("\n"),
+          after: first.id,
+        },
+      },
+    });
+
+    expect(result.isError).toBe(false);
+    const [content] = result.content as { type: string; text: string }[];
+    expect(JSON.parse(content.text)).toMatchObject({ created: 124 });
+
+    expect(fake.store.listChildren(page.id).map(textOf)).toEqual([
+      "First",
+      "Level 1",
+      ...paragraphs,
+      "Last",
+    ]);
+
+    let item = fake.store.listChildren(page.id)[1];
+    for (const level of ["Level 2", "Level 3", "Level 4"]) {
+      const children = fake.store.listChildren(item.id);
+
+      expect(children.map(textOf)).toEqual([level]);
+      item = children[0];
+    }
+
+    // each request stays within Notion's limits of 100 children and two nesting levels
+    for (const { children } of appended) {
+      expect(children.length).toBeLessThanOrEqual(100);
+      for (const block of children) {
+        expect(block[block.type as string]).not.toHaveProperty("children");
+      }
+    }
+    // the first 100, the nested items under their parents, then the rest
+    expect(
+      appended.map(({ parentId, children }) => [
+        parentId === page.id ? "page" : "block",
+        children.length,
+      ])
+    ).toEqual([
+      ["page", 100],
+      ["block", 1],
+      ["block", 1],
+      ["block", 1],
+      ["page", 21],
+    ]);
+  });
+});
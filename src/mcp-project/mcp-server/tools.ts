@@ -1,228 +1,951 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
+  McpServer,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  auditToolCall,
+  fingerprint,
+  recordPreviousValue,
+} from "./audit-log.js";
+import {
+  appendBlockTree,
+  BlockTree,
+  fetchBlockTree,
+  hasNestedContent,
+  NotionBlock,
+} from "./block-tree.js";
+import {
+  BLOCK_TREE_MAX_BLOCKS,
+  BLOCK_TREE_MAX_DEPTH,
+  NotionToolName,
+  READ_ONLY_TOOL_NAMES,
+} from "./constants.js";
+import { renderBlocks } from "./markdown.js";
+import { markdownToBlocks } from "./markdown-to-blocks.js";
+import { trackToolCall } from "./lifecycle.js";
+import { Logger, logger as defaultLogger, withLogContext } from "./logger.js";
+import { toolCallDurationSeconds, toolCallsTotal } from "./metrics.js";
+import {
+  createNotionClient,
+  NotionClient,
+  NotionResponse,
+} from "./notion-client.js";
+import {
+  getTitle,
+  NotionObject,
+  summarizeList,
+  summarizeObject,
+} from "./summary.js";
+import {
+  AppendBlockChildrenBodySchema,
+  AppendBlockChildrenParamsSchema,
+  AppendMarkdownBodySchema,
+  AppendMarkdownParamsSchema,
+  BlockOutputSchema,
+  CreateDatabaseRequestSchema,
+  CreatePageRequestSchema,
+  DeleteBlockParamsSchema,
+  ExportPageOutputSchema,
+  ExportPageParamsSchema,
+  GetBlockChildrenParamsSchema,
   GetBlockParamsSchema,
+  GetDatabaseParamsSchema,
   GetPageParamsSchema,
+  ListOutputSchema,
+  PageOutputSchema,
   PatchBlockBodyStrictSchema,
   PatchBlockParamsSchema,
   PatchPageBodySchema,
   PatchPageParamsSchema,
+  QueryDatabaseBodySchema,
+  QueryDatabaseParamsSchema,
+  RestorePageParamsSchema,
   SearchRequestSchema,
+  TrashPageParamsSchema,
 } from "./schema.js";
 
 /** Reference:
 https://github.com/GoogleCloudPlatform/cloud-run-mcp/blob/main/tools.js
 */
 
-const BASE_URL = "https://api.notion.com";
+// Surface Notion's error `code` (e.g. `object_not_found`, `validation_error`) so the model can react to it
+function toToolResult(response: NotionResponse): CallToolResult {
+  if (!response.ok) {
+    const { status, code, message } = response.error;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ status, code, message }),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(response.data) }],
+    isError: false,
+  };
+}
+
+/**
+ * Ask the user to confirm a destructive action through elicitation.
+ * Clients without elicitation support are not asked, so the action proceeds. Neither
+ * are clients in stateless mode: the per-request server never sees `initialize`, so
+ * it doesn't know their capabilities, and couldn't send them a request anyway.
+ * The question goes out on the stream of the tool call it belongs to: over Streamable
+ * HTTP, a client that never opened the standalone GET stream would not get it otherwise.
+ */
+async function confirmAction(
+  server: McpServer,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  message: string
+): Promise<boolean> {
+  const capabilities = server.server.getClientCapabilities();
+
+  if (!capabilities?.elicitation) {
+    return true;
+  }
+
+  const result = await server.server.elicitInput(
+    {
+      message,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: {
+            type: "boolean",
+            title: "Confirm",
+            description: "Set to true to proceed with the action.",
+          },
+        },
+        required: ["confirm"],
+      },
+    },
+    { relatedRequestId: extra.requestId, signal: extra.signal }
+  );
+
+  return result.action === "accept" && result.content?.confirm === true;
+}
+
+function cancelledResult(action: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: `The user did not confirm the request to ${action}. Nothing was changed in Notion.`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+// The full object goes to `structuredContent`, checked against the tool's `outputSchema`.
+// The text content summarizes it, followed by the same JSON for hosts that only read `content`.
+function toStructuredResult(
+  response: NotionResponse,
+  summarize: (data: never) => string
+): CallToolResult {
+  if (!response.ok) {
+    return toToolResult(response);
+  }
+
+  return {
+    content: [
+      { type: "text", text: summarize(response.data as never) },
+      { type: "text", text: JSON.stringify(response.data) },
+    ],
+    structuredContent: response.data as Record<string, unknown>,
+    isError: false,
+  };
+}
+
+function toObjectResult(response: NotionResponse): CallToolResult {
+  return toStructuredResult(response, summarizeObject);
+}
+
+function toListResult(response: NotionResponse): CallToolResult {
+  return toStructuredResult(response, summarizeList);
+}
+
+const TRUNCATED_MARKDOWN_NOTE =
+  "<!-- truncated: the page is deeper or longer than the rendering limits -->";
+
+function toMarkdown({ blocks, truncated }: BlockTree): string {
+  return truncated
+    ? `${renderBlocks(blocks)}\n\n${TRUNCATED_MARKDOWN_NOTE}`
+    : renderBlocks(blocks);
+}
+
+function toMarkdownResult(response: NotionResponse<BlockTree>): CallToolResult {
+  if (!response.ok) {
+    return toToolResult(response);
+  }
+
+  const markdown = toMarkdown(response.data);
+
+  return {
+    content: [{ type: "text", text: markdown }],
+    isError: false,
+  };
+}
+
+// Both registration styles are used: `tool` and, for tools with an `outputSchema`, `registerTool`
+function interceptRegistrations(
+  server: McpServer,
+  intercept: (name: string, register: () => RegisteredTool) => RegisteredTool
+) {
+  const tool = server.tool.bind(server) as (
+    name: string,
+    ...rest: unknown[]
+  ) => RegisteredTool;
+  const registerTool = server.registerTool.bind(server) as (
+    name: string,
+    ...rest: unknown[]
+  ) => RegisteredTool;
+
+  server.tool = ((name: string, ...rest: unknown[]) =>
+    intercept(name, () => tool(name, ...rest))) as McpServer["tool"];
+  server.registerTool = ((name: string, ...rest: unknown[]) =>
+    intercept(name, () =>
+      registerTool(name, ...rest)
+    )) as McpServer["registerTool"];
+}
+
+// The request context always comes last, after the parsed arguments if any
+function splitCallbackArgs(args: unknown[]) {
+  return {
+    toolArgs: args.length > 1 ? args[0] : undefined,
+    extra: args[args.length - 1] as RequestHandlerExtra<
+      ServerRequest,
+      ServerNotification
+    >,
+  };
+}
+
+/**
+ * Wrap the callback of every tool registered on `server` from now on, so each call is
+ * counted, timed and logged by outcome without touching the tools themselves.
+ */
+function instrumentToolCalls(server: McpServer, log: Logger) {
+  interceptRegistrations(server, (name, register) => {
+    const registered = register();
+    const callback = registered.callback as (
+      ...args: unknown[]
+    ) => Promise<CallToolResult>;
+
+    registered.callback = (async (...args: unknown[]) => {
+      const { sessionId, requestId } = splitCallbackArgs(args).extra;
+      const startedAt = performance.now();
+      // graceful shutdown waits for this call to settle
+      const settled = trackToolCall();
+      // stays "exception" when the callback throws instead of returning `isError`
+      let outcome = "exception";
+      let thrown: string | undefined;
+
+      try {
+        // so the Notion client's lines can be matched to the call
+        const result = await withLogContext({ sessionId, requestId }, () =>
+          callback(...args)
+        );
+        outcome = result.isError ? "error" : "success";
+
+        return result;
+      } catch (error) {
+        thrown = String(error);
+        throw error;
+      } finally {
+        settled();
+
+        const seconds = (performance.now() - startedAt) / 1000;
+        const labels = { tool: name, outcome };
+
+        toolCallsTotal.inc(labels);
+        toolCallDurationSeconds.observe(labels, seconds);
+
+        const level =
+          outcome === "success"
+            ? "info"
+            : outcome === "error"
+              ? "warning"
+              : "error";
+
+        log[level]("Tool call", {
+          tool: name,
+          outcome,
+          durationMs: Math.round(seconds * 1000),
+          sessionId,
+          requestId,
+          error: thrown,
+        });
+      }
+    }) as RegisteredTool["callback"];
+
+    return registered;
+  });
+}
+
+/**
+ * Record every call of a tool that writes to Notion in the audit log. Tools are
+ * audited unless listed in `READ_ONLY_TOOL_NAMES`, so new write tools are covered
+ * without further changes.
+ */
+function auditToolCalls(server: McpServer, authToken: string | undefined) {
+  const notionToken = authToken ? fingerprint(authToken) : undefined;
+
+  interceptRegistrations(server, (name, register) => {
+    const registered = register();
+
+    if (READ_ONLY_TOOL_NAMES.some((tool) => tool === name)) {
+      return registered;
+    }
+
+    const callback = registered.callback as (
+      ...args: unknown[]
+    ) => Promise<CallToolResult>;
+
+    registered.callback = (async (...args: unknown[]) => {
+      const { toolArgs, extra } = splitCallbackArgs(args);
+      const client = server.server.getClientVersion();
+
+      return auditToolCall(
+        {
+          tool: name,
+          sessionId: extra.sessionId,
+          requestId: extra.requestId,
+          caller: {
+            notionToken,
+            client: client && `${client.name}/${client.version}`,
+          },
+          arguments: toolArgs,
+        },
+        () => callback(...args)
+      );
+    }) as RegisteredTool["callback"];
+
+    return registered;
+  });
+}
+
+// Which tools a server offers: `--read-only` and the `--tools` allowlist
+export type ToolAccess = {
+  readOnly: boolean;
+  tools?: NotionToolName[];
+};
+
+export function isToolEnabled(name: string, access: ToolAccess): boolean {
+  const { readOnly, tools } = access;
+
+  if (readOnly && !READ_ONLY_TOOL_NAMES.some((tool) => tool === name)) {
+    return false;
+  }
+
+  return !tools || tools.some((tool) => tool === name);
+}
+
+// Audit: the fields of `object` a write is about to change, as they were before it
+async function previousFields(
+  notion: NotionClient,
+  endpoint: string,
+  pick: (object: Record<string, unknown>) => Record<string, unknown>
+) {
+  await recordPreviousValue(async () => {
+    const response = await notion.request<Record<string, unknown>>({
+      method: "GET",
+      endpoint,
+    });
+
+    return response.ok ? pick(response.data) : undefined;
+  });
+}
+
+function pickFields(
+  object: Record<string, unknown>,
+  keys: string[]
+): Record<string, unknown> {
+  return Object.fromEntries(
+    keys.filter((key) => key in object).map((key) => [key, object[key]])
+  );
+}
 
 export function registerTool(
   server: McpServer,
-  options: { authToken?: string } = {}
+  options: {
+    authToken?: string;
+    logger?: Logger;
+    toolAccess?: ToolAccess;
+  } = {}
 ) {
-  const { authToken } = options;
+  const {
+    authToken,
+    logger = defaultLogger,
+    toolAccess = { readOnly: false },
+  } = options;
+
+  // inside the instrumentation, so shutdown also waits for the audit entry to be written
+  auditToolCalls(server, authToken);
+  instrumentToolCalls(server, logger);
+
+  const notion = createNotionClient({ authToken, logger });
+
+  // every tool registered below, so the ones `toolAccess` leaves out can be removed
+  const tools: Partial<Record<NotionToolName, RegisteredTool>> = {};
 
   // 🔦 search tool 🔦
-  server.tool(
+  tools["post-search"] = server.registerTool(
     "post-search",
-    "Search by title",
-    SearchRequestSchema,
-    async ({ query, sort, filter, page_size }) => {
+    {
+      description:
+        "Search by title. Use `next_cursor` from the response as `start_cursor` to fetch the next page of results, or set `fetch_all` to collect them all at once.",
+      inputSchema: SearchRequestSchema,
+      outputSchema: ListOutputSchema,
+    },
+    async ({
+      query,
+      sort,
+      filter,
+      start_cursor,
+      page_size,
+      fetch_all,
+      max_items,
+    }) => {
       const endpoint = "/v1/search";
 
-      const url = new URL(endpoint, BASE_URL);
-
       const body = {
         query: query ?? "",
         sort: sort ?? {},
         filter: filter ?? {},
+        start_cursor,
         page_size: page_size,
       };
 
-      const response = await fetch(url.toString(), {
-        method: "POST",
-        headers: {
-          authorization: `Bearer ${authToken}`,
-          "notion-version": "2022-06-28",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify(body),
-      });
-
-      if (!response.ok) {
-        return {
-          content: [{ type: "text", text: String(response.statusText) }],
-          isError: true,
-        };
-      }
-
-      const data = await response.json();
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-        isError: false,
-      };
+      const response = fetch_all
+        ? await notion.requestAll(
+            { method: "POST", endpoint, body },
+            {
+              startCursor: start_cursor,
+              pageSize: page_size,
+              maxItems: max_items,
+            }
+          )
+        : await notion.request({
+            method: "POST",
+            endpoint,
+            body,
+          });
+
+      return toListResult(response);
     }
   );
 
   // 📕 page tools 📕
-  server.tool(
+  tools["get-a-page"] = server.registerTool(
     "get-a-page",
-    "Get a page",
-    GetPageParamsSchema,
+    {
+      description: "Get a page",
+      inputSchema: GetPageParamsSchema,
+      outputSchema: PageOutputSchema,
+    },
     async ({ page_id }) => {
       const endpoint = `/v1/pages/${page_id}`;
 
-      const url = new URL(endpoint, BASE_URL);
+      const response = await notion.request({
+        method: "GET",
+        endpoint,
+      });
+
+      return toObjectResult(response);
+    }
+  );
 
-      const response = await fetch(url.toString(), {
+  tools["export-page"] = server.registerTool(
+    "export-page",
+    {
+      description:
+        "Export a whole page in one call: its properties and every nested block, as Markdown and as a block tree. Reports progress while fetching when the request has a `progressToken`, and stops when the request is cancelled.",
+      inputSchema: ExportPageParamsSchema,
+      outputSchema: ExportPageOutputSchema,
+      annotations: {
+        title: "Export a page",
+        readOnlyHint: true,
+      },
+    },
+    async ({ page_id, max_depth, max_blocks }, extra) => {
+      const page = await notion.request<NotionObject>({
         method: "GET",
-        headers: {
-          authorization: `Bearer ${authToken}`,
-          "notion-version": "2022-06-28",
-          "content-type": "application/json",
+        endpoint: `/v1/pages/${page_id}`,
+        signal: extra.signal,
+      });
+
+      if (!page.ok) {
+        return toToolResult(page);
+      }
+
+      const progressToken = extra._meta?.progressToken;
+      let blockCount = 0;
+
+      const tree = await fetchBlockTree(notion, page_id, {
+        maxDepth: max_depth,
+        maxBlocks: max_blocks,
+        signal: extra.signal,
+        onProgress: async (fetched) => {
+          blockCount = fetched;
+
+          if (progressToken === undefined) {
+            return;
+          }
+
+          // the total isn't known until the walk ends, `max_blocks` is only a bound
+          await extra
+            .sendNotification({
+              method: "notifications/progress",
+              params: {
+                progressToken,
+                progress: fetched,
+                message: `Fetched ${fetched} block${fetched === 1 ? "" : "s"}`,
+              },
+            })
+            // a lost progress notification must not fail the export
+            .catch(() => undefined);
         },
       });
 
-      if (!response.ok) {
-        return {
-          content: [{ type: "text", text: String(response.statusText) }],
-          isError: true,
-        };
+      if (!tree.ok) {
+        return toToolResult(tree);
       }
 
-      const data = await response.json();
+      const markdown = `# ${getTitle(page.data)}\n\n${toMarkdown(tree.data)}`;
 
       return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
+        content: [{ type: "text", text: markdown }],
+        structuredContent: {
+          page: page.data,
+          markdown,
+          blocks: tree.data.blocks,
+          blockCount,
+          truncated: tree.data.truncated,
+        },
         isError: false,
       };
     }
   );
 
-  server.tool(
+  tools["create-a-page"] = server.registerTool(
+    "create-a-page",
+    {
+      description:
+        "Create a page as a child of an existing page or database, optionally with initial content",
+      inputSchema: CreatePageRequestSchema,
+      outputSchema: PageOutputSchema,
+    },
+    async ({ parent, properties, children, icon, cover }) => {
+      const endpoint = "/v1/pages";
+
+      const response = await notion.request({
+        method: "POST",
+        endpoint,
+        body: {
+          parent,
+          properties,
+          children,
+          icon,
+          cover,
+        },
+      });
+
+      return toObjectResult(response);
+    }
+  );
+
+  tools["patch-a-page"] = server.registerTool(
     "patch-a-page",
-    "Patch a page",
     {
-      params: PatchPageParamsSchema,
-      body: PatchPageBodySchema,
+      description: "Patch a page",
+      inputSchema: {
+        params: PatchPageParamsSchema,
+        body: PatchPageBodySchema,
+      },
+      outputSchema: PageOutputSchema,
     },
     async ({ params, body }) => {
       const { page_id } = params;
       const { properties, in_trash, archived, icon, cover } = body;
       const endpoint = `/v1/pages/${page_id}`;
 
-      const url = new URL(endpoint, BASE_URL);
-
-      const response = await fetch(url.toString(), {
+      await previousFields(notion, endpoint, (page) => ({
+        ...pickFields(
+          page,
+          Object.keys(body).filter((key) => key !== "properties")
+        ),
+        // only the properties being patched
+        properties: pickFields(
+          (page.properties ?? {}) as Record<string, unknown>,
+          Object.keys(properties ?? {})
+        ),
+      }));
+
+      const response = await notion.request({
         method: "PATCH",
-        headers: {
-          authorization: `Bearer ${authToken}`,
-          "notion-version": "2022-06-28",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({
+        endpoint,
+        body: {
           properties,
           in_trash,
           archived,
           icon,
           cover,
-        }),
+        },
       });
 
-      if (!response.ok) {
-        return {
-          content: [{ type: "text", text: String(response.statusText) }],
-          isError: true,
-        };
+      return toObjectResult(response);
+    }
+  );
+
+  tools["trash-page"] = server.registerTool(
+    "trash-page",
+    {
+      description:
+        "Move a page to the trash. It can be restored with `restore-page`.",
+      inputSchema: TrashPageParamsSchema,
+      outputSchema: PageOutputSchema,
+      annotations: {
+        title: "Trash a page",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
+    },
+    async ({ page_id }, extra) => {
+      const confirmed = await confirmAction(
+        server,
+        extra,
+        `Move the Notion page ${page_id} to the trash?`
+      );
+
+      if (!confirmed) {
+        return cancelledResult(`trash page ${page_id}`);
       }
 
-      const data = await response.json();
+      const endpoint = `/v1/pages/${page_id}`;
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-        isError: false,
-      };
+      await previousFields(notion, endpoint, (page) =>
+        pickFields(page, ["in_trash", "archived"])
+      );
+
+      const response = await notion.request({
+        method: "PATCH",
+        endpoint,
+        body: {
+          in_trash: true,
+        },
+      });
+
+      return toObjectResult(response);
+    }
+  );
+
+  tools["restore-page"] = server.registerTool(
+    "restore-page",
+    {
+      description: "Restore a page from the trash",
+      inputSchema: RestorePageParamsSchema,
+      outputSchema: PageOutputSchema,
+      annotations: {
+        title: "Restore a page",
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+    },
+    async ({ page_id }) => {
+      const endpoint = `/v1/pages/${page_id}`;
+
+      await previousFields(notion, endpoint, (page) =>
+        pickFields(page, ["in_trash", "archived"])
+      );
+
+      const response = await notion.request({
+        method: "PATCH",
+        endpoint,
+        body: {
+          in_trash: false,
+        },
+      });
+
+      return toObjectResult(response);
+    }
+  );
+
+  // 🗄️ database tools 🗄️
+
+  tools["retrieve-a-database"] = server.tool(
+    "retrieve-a-database",
+    "Retrieve a database object, including its title, description and property schema",
+    GetDatabaseParamsSchema,
+    async ({ database_id }) => {
+      const endpoint = `/v1/databases/${database_id}`;
+
+      const response = await notion.request({
+        method: "GET",
+        endpoint,
+      });
+
+      return toToolResult(response);
+    }
+  );
+
+  tools["query-a-database"] = server.registerTool(
+    "query-a-database",
+    {
+      description:
+        "Query a database. Returns the pages that match the filter, ordered by the sorts. Use `next_cursor` from the response as `start_cursor` to fetch the next page of results.",
+      inputSchema: {
+        params: QueryDatabaseParamsSchema,
+        body: QueryDatabaseBodySchema,
+      },
+      outputSchema: ListOutputSchema,
+    },
+    async ({ params, body }) => {
+      const { database_id } = params;
+      const { filter, sorts, start_cursor, page_size } = body;
+
+      const endpoint = `/v1/databases/${database_id}/query`;
+
+      const response = await notion.request({
+        method: "POST",
+        endpoint,
+        body: {
+          filter,
+          sorts,
+          start_cursor,
+          page_size,
+        },
+      });
+
+      return toListResult(response);
+    }
+  );
+
+  tools["create-a-database"] = server.tool(
+    "create-a-database",
+    "Create a database as a subpage of the specified parent page, with the specified property schema",
+    CreateDatabaseRequestSchema,
+    async ({ parent, title, properties, is_inline, icon, cover }) => {
+      const endpoint = "/v1/databases";
+
+      const response = await notion.request({
+        method: "POST",
+        endpoint,
+        body: {
+          parent,
+          title,
+          properties,
+          is_inline,
+          icon,
+          cover,
+        },
+      });
+
+      return toToolResult(response);
     }
   );
 
   // 📝 block children tools 📝
 
-  server.tool(
+  tools["get-block-children"] = server.tool(
     "get-block-children",
-    "Get the children of a block. Block can be a page, another block, or a child block.",
-    GetBlockParamsSchema,
-    async ({ block_id }) => {
+    "Get the children of a block. Block can be a page, another block, or a child block. Use `next_cursor` from the response as `start_cursor` to fetch the next page of children, or set `fetch_all` to collect them all at once.",
+    GetBlockChildrenParamsSchema,
+    async ({
+      block_id,
+      start_cursor,
+      page_size,
+      fetch_all,
+      max_items,
+      format,
+    }) => {
+      if (format === "markdown") {
+        const tree = await fetchBlockTree(notion, block_id, {
+          maxDepth: BLOCK_TREE_MAX_DEPTH,
+          maxBlocks: BLOCK_TREE_MAX_BLOCKS,
+        });
+
+        return toMarkdownResult(tree);
+      }
+
       const endpoint = `/v1/blocks/${block_id}/children`;
 
-      const url = new URL(endpoint, BASE_URL);
+      const response = fetch_all
+        ? await notion.requestAll(
+            { method: "GET", endpoint },
+            {
+              startCursor: start_cursor,
+              pageSize: page_size,
+              maxItems: max_items,
+            }
+          )
+        : await notion.request({
+            method: "GET",
+            endpoint,
+            query: { start_cursor, page_size },
+          });
+
+      return toToolResult(response);
+    }
+  );
 
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: {
-          authorization: `Bearer ${authToken}`,
-          "notion-version": "2022-06-28",
-          "content-type": "application/json",
+  tools["append-block-children"] = server.registerTool(
+    "append-block-children",
+    {
+      description:
+        "Append new children blocks to a block or page. Blocks are appended at the end unless `after` is given.",
+      inputSchema: {
+        params: AppendBlockChildrenParamsSchema,
+        body: AppendBlockChildrenBodySchema,
+      },
+      outputSchema: ListOutputSchema,
+    },
+    async ({ params, body }) => {
+      const { block_id } = params;
+      const { children, after } = body;
+
+      const endpoint = `/v1/blocks/${block_id}/children`;
+
+      const response = await notion.request({
+        method: "PATCH",
+        endpoint,
+        body: {
+          children,
+          after,
         },
       });
 
-      if (!response.ok) {
-        return {
-          content: [{ type: "text", text: String(response.statusText) }],
-          isError: true,
-        };
-      }
+      return toListResult(response);
+    }
+  );
 
-      const data = await response.json();
+  tools["append-markdown"] = server.tool(
+    "append-markdown",
+    "Append Markdown content to a block or page. The Markdown is converted to Notion blocks on the server, so there is no need to build block objects by hand.",
+    {
+      params: AppendMarkdownParamsSchema,
+      body: AppendMarkdownBodySchema,
+    },
+    async ({ params, body }) => {
+      const { block_id } = params;
+      const { markdown, after } = body;
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-        isError: false,
-      };
+      const blocks = markdownToBlocks(markdown);
+
+      const response = await appendBlockTree(notion, block_id, blocks, {
+        after,
+      });
+
+      return toToolResult(response);
     }
   );
 
   // 🧱 block tools 🧱
 
-  server.tool(
+  tools["retrieve-a-block"] = server.tool(
     "retrieve-a-block",
     "Retrieve a block",
     GetBlockParamsSchema,
-    async ({ block_id }) => {
+    async ({ block_id, format }) => {
       const endpoint = `/v1/blocks/${block_id}`;
 
-      const url = new URL(endpoint, BASE_URL);
-
-      const response = await fetch(url.toString(), {
+      const response = await notion.request<NotionBlock>({
         method: "GET",
-        headers: {
-          authorization: `Bearer ${authToken}`,
-          "notion-version": "2022-06-28",
-          "content-type": "application/json",
-        },
+        endpoint,
       });
 
-      if (!response.ok) {
-        return {
-          content: [{ type: "text", text: String(response.statusText) }],
-          isError: true,
-        };
+      if (format === "json" || !response.ok) {
+        return toToolResult(response);
       }
 
-      const data = await response.json();
+      const block = response.data;
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-        isError: false,
-      };
+      if (!hasNestedContent(block)) {
+        return toMarkdownResult({
+          ok: true,
+          status: response.status,
+          data: { blocks: [block], truncated: false },
+        });
+      }
+
+      const tree = await fetchBlockTree(notion, block_id, {
+        maxDepth: BLOCK_TREE_MAX_DEPTH - 1,
+        maxBlocks: BLOCK_TREE_MAX_BLOCKS,
+      });
+
+      if (!tree.ok) {
+        return toToolResult(tree);
+      }
+
+      block.children = tree.data.blocks;
+
+      return toMarkdownResult({
+        ...tree,
+        data: { ...tree.data, blocks: [block] },
+      });
+    }
+  );
+
+  tools["delete-a-block"] = server.registerTool(
+    "delete-a-block",
+    {
+      description:
+        "Delete a block. The block is moved to the trash and can be restored by patching it with `archived: false`.",
+      inputSchema: DeleteBlockParamsSchema,
+      outputSchema: BlockOutputSchema,
+      annotations: {
+        title: "Delete a block",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
+    },
+    async ({ block_id }, extra) => {
+      const confirmed = await confirmAction(
+        server,
+        extra,
+        `Delete the Notion block ${block_id}?`
+      );
+
+      if (!confirmed) {
+        return cancelledResult(`delete block ${block_id}`);
+      }
+
+      const endpoint = `/v1/blocks/${block_id}`;
+
+      // the whole block, its content is what gets deleted
+      await previousFields(notion, endpoint, (block) => block);
+
+      const response = await notion.request({
+        method: "DELETE",
+        endpoint,
+      });
+
+      return toObjectResult(response);
     }
   );
 
-  server.tool(
+  tools["patch-a-block"] = server.registerTool(
     "patch-a-block",
-    "Patch a block",
     {
-      params: PatchBlockParamsSchema,
-      body: PatchBlockBodyStrictSchema,
+      description: "Patch a block",
+      inputSchema: {
+        params: PatchBlockParamsSchema,
+        body: PatchBlockBodyStrictSchema,
+      },
+      outputSchema: BlockOutputSchema,
     },
     async ({ params, body }) => {
       const { block_id } = params;
@@ -230,34 +953,34 @@ export function registerTool(
 
       const endpoint = `/v1/blocks/${block_id}`;
 
-      const url = new URL(endpoint, BASE_URL);
+      await previousFields(notion, endpoint, (block) =>
+        pickFields(block, ["type", String(block.type), "archived"])
+      );
 
-      const response = await fetch(url.toString(), {
+      const response = await notion.request({
         method: "PATCH",
-        headers: {
-          authorization: `Bearer ${authToken}`,
-          "notion-version": "2022-06-28",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({
+        endpoint,
+        body: {
           type,
           archived,
-        }),
+        },
       });
 
-      if (!response.ok) {
-        return {
-          content: [{ type: "text", text: String(response.statusText) }],
-          isError: true,
-        };
-      }
+      return toObjectResult(response);
+    }
+  );
 
-      const data = await response.json();
+  for (const [name, tool] of Object.entries(tools)) {
+    // removed before the server is connected, so no client can list or call them
+    if (!isToolEnabled(name, toolAccess)) {
+      tool.remove();
+      continue;
+    }
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-        isError: false,
-      };
+    // `registerTool` closes the object it makes of the raw shape (`additionalProperties: false`),
+    // and Notion objects have many more fields than the schemas list
+    if (tool.outputSchema) {
+      tool.outputSchema = tool.outputSchema.passthrough();
     }
-  );
+  }
 }
@@ -0,0 +1,69 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { parseArgs } from "./utils.js";
+
+describe("parseArgs", () => {
+  const argv = process.argv;
+  const env = process.env;
+
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "notion-mcp-config-"));
+    // only what each test sets, whatever `.env` holds
+    process.env = {};
+  });
+
+  afterEach(() => {
+    process.argv = argv;
+    process.env = env;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function run(args: string[] = []) {
+    process.argv = ["node", "index.ts", ...args];
+    return parseArgs();
+  }
+
+  it.each([
+    "ntn_1234567890abcdefghijABCDEFGHIJ",
+    "secret_abcdefghij1234567890",
+  ])("reads the Notion token %s from the environment", (token) => {
+    process.env.NOTION_AUTH_TOKEN = token;
+
+    expect(run().authToken).toBe(token);
+  });
+
+  it("reads the Notion token from the config file", () => {
+    const configPath = path.join(directory, "config.json");
+    writeFileSync(configPath, JSON.stringify({ authToken: "ntn_from_file" }));
+
+    expect(run(["--config", configPath]).authToken).toBe("ntn_from_file");
+  });
+
+  it("reads the Notion token from the command line", () => {
+    expect(run(["--auth-token", "ntn_from_cli"]).authToken).toBe(
+      "ntn_from_cli"
+    );
+  });
+
+  it("lets the command line override the environment and the file", () => {
+    const configPath = path.join(directory, "config.json");
+    writeFileSync(configPath, JSON.stringify({ authToken: "ntn_from_file" }));
+    process.env.NOTION_AUTH_TOKEN = "ntn_from_env";
+
+    expect(run(["--config", configPath]).authToken).toBe("ntn_from_env");
+    expect(
+      run(["--config", configPath, "--auth-token", "ntn_from_cli"]).authToken
+    ).toBe("ntn_from_cli");
+  });
+
+  it("names the source of an invalid setting", () => {
+    process.env.MCP_PORT = "not-a-port";
+
+    expect(() => run()).toThrow(
+      "Invalid configuration from environment:\n  - MCP_PORT"
+    );
+  });
+});
@@ -1,47 +1,315 @@
 import "dotenv/config";
+import { readFileSync } from "node:fs";
 import { z } from "zod";
-import { DEFAULT_PORT, DEFAULT_TRANSPORT } from "./constants.js";
-import { authTokenSchema, portSchema, transportSchema } from "./schema.js";
+import { ConfigSchema } from "./schema.js";
 
-export function parseArgs() {
-  const args = process.argv.slice(2);
-  let transport: z.infer<typeof transportSchema> = DEFAULT_TRANSPORT;
-  let port: number = DEFAULT_PORT;
-  let authToken: string = process.env.NOTION_AUTH_TOKEN ?? "";
+/**
+ * Settings are layered, each layer overriding the previous one:
+ * defaults (`constants.ts`) < JSON config file (`--config`) < environment < CLI flags.
+ * Every layer is validated against `ConfigSchema`, so an error names the source it came from.
+ */
+
+type Config = z.infer<typeof ConfigSchema>;
+
+type ConfigKey = keyof Config;
+
+// How each setting is spelled on the command line and in the environment
+const CONFIG_SOURCES: Record<
+  ConfigKey,
+  {
+    flag: string;
+    env: string;
+    type: "string" | "number" | "boolean" | "list";
+  }
+> = {
+  transport: { flag: "--transport", env: "MCP_TRANSPORT", type: "string" },
+  port: { flag: "--port", env: "MCP_PORT", type: "number" },
+  authToken: { flag: "--auth-token", env: "NOTION_AUTH_TOKEN", type: "string" },
+  gatewayToken: {
+    flag: "--gateway-token",
+    env: "MCP_GATEWAY_TOKEN",
+    type: "string",
+  },
+  multiTenant: {
+    flag: "--multi-tenant",
+    env: "MCP_MULTI_TENANT",
+    type: "boolean",
+  },
+  stateless: { flag: "--stateless", env: "MCP_STATELESS", type: "boolean" },
+  eventStore: {
+    flag: "--event-store",
+    env: "MCP_EVENT_STORE",
+    type: "string",
+  },
+  eventStoreDir: {
+    flag: "--event-store-dir",
+    env: "MCP_EVENT_STORE_DIR",
+    type: "string",
+  },
+  logLevel: { flag: "--log-level", env: "MCP_LOG_LEVEL", type: "string" },
+  readOnly: { flag: "--read-only", env: "MCP_READ_ONLY", type: "boolean" },
+  tools: { flag: "--tools", env: "MCP_TOOLS", type: "list" },
+  notionBaseUrl: {
+    flag: "--notion-base-url",
+    env: "NOTION_BASE_URL",
+    type: "string",
+  },
+  auditLog: { flag: "--audit-log", env: "MCP_AUDIT_LOG", type: "string" },
+  auditRedact: {
+    flag: "--audit-redact",
+    env: "MCP_AUDIT_REDACT",
+    type: "list",
+  },
+  auditPrevious: {
+    flag: "--audit-previous",
+    env: "MCP_AUDIT_PREVIOUS",
+    type: "boolean",
+  },
+};
+
+const CONFIG_FLAG = "--config";
+const CONFIG_ENV = "MCP_CONFIG";
+
+const configKeys = Object.keys(CONFIG_SOURCES) as ConfigKey[];
+
+// Environment and CLI values are strings, the schema expects numbers, booleans and lists where it says so
+function coerce(key: ConfigKey, value: string): unknown {
+  const { type } = CONFIG_SOURCES[key];
+
+  if (type === "number") {
+    return value.trim() === "" ? value : Number(value);
+  }
+
+  if (type === "list") {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  if (type === "boolean") {
+    const normalized = value.toLowerCase();
+
+    if (["true", "1", "yes"].includes(normalized)) {
+      return true;
+    }
+
+    if (["false", "0", "no"].includes(normalized)) {
+      return false;
+    }
+  }
+
+  if (key === "transport" || key === "eventStore" || key === "logLevel") {
+    return value.toLowerCase();
+  }
+
+  return value;
+}
+
+function validateLayer(
+  source: string,
+  layer: Record<string, unknown>,
+  describeKey: (key: string) => string
+): Partial<Config> {
+  const result = ConfigSchema.partial().strict().safeParse(layer);
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => {
+      if (issue.code === "unrecognized_keys") {
+        return `  - unknown setting(s): ${issue.keys.join(", ")}`;
+      }
+
+      return `  - ${describeKey(String(issue.path[0]))}: ${issue.message}`;
+    });
+
+    throw new Error(
+      `Invalid configuration from ${source}:\n${issues.join("\n")}`
+    );
+  }
+
+  return result.data;
+}
+
+function readConfigFile(filePath: string): Partial<Config> {
+  let layer: unknown;
+
+  try {
+    layer = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid configuration from config file ${filePath}:\n  - ${String(error)}`
+    );
+  }
+
+  if (typeof layer !== "object" || layer === null || Array.isArray(layer)) {
+    throw new Error(
+      `Invalid configuration from config file ${filePath}:\n  - expected a JSON object`
+    );
+  }
+
+  return validateLayer(
+    `config file ${filePath}`,
+    layer as Record<string, unknown>,
+    (key) => key
+  );
+}
+
+function readEnv(env: NodeJS.ProcessEnv): Partial<Config> {
+  const layer: Record<string, unknown> = {};
+
+  for (const key of configKeys) {
+    const value = env[CONFIG_SOURCES[key].env];
+
+    // empty variables, e.g. `NOTION_AUTH_TOKEN=` in `.env`, count as unset
+    if (value !== undefined && value !== "") {
+      layer[key] = coerce(key, value);
+    }
+  }
+
+  return validateLayer(
+    "environment",
+    layer,
+    (key) => CONFIG_SOURCES[key as ConfigKey]?.env ?? key
+  );
+}
+
+function readFlags(args: string[]): Partial<Config> {
+  const layer: Record<string, unknown> = {};
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
-    const hasNextArg = i + 1 < args.length;
-
-    if (arg === "--transport" && hasNextArg) {
-      const value = args[i + 1].toLowerCase();
-      transport = transportSchema.parse(value);
-
-      i++; // skip the next argument
-    } else if (arg === "--port" && hasNextArg) {
-      const value = parseInt(args[i + 1], 10);
-      const parsed = portSchema.parse(value);
-
-      port = parsed;
-      i++; // skip the next argument
-    } else if (arg === "--auth-token" && hasNextArg) {
-      const value = args[i + 1];
-      const parsed = authTokenSchema.parse(value);
-
-      authToken = parsed;
-      i++; // skip the next argument
-    } else if (arg === "--help") {
-      console.log(`Usage: Notion-mcp-server
-            
-            Options:
-            --transport <transport> 
-            --port <port>
-            --auth-token <token>
-            --help
-            `);
-      process.exit(0);
+
+    if (arg === CONFIG_FLAG) {
+      i++; // read separately, skip its value
+      continue;
+    }
+
+    const key = configKeys.find((key) => CONFIG_SOURCES[key].flag === arg);
+
+    if (!key) {
+      throw new Error(
+        `Invalid configuration from command line:\n  - unknown option ${arg}, see --help`
+      );
+    }
+
+    // boolean flags take no value
+    if (CONFIG_SOURCES[key].type === "boolean") {
+      layer[key] = true;
+      continue;
+    }
+
+    if (i + 1 >= args.length) {
+      throw new Error(
+        `Invalid configuration from command line:\n  - ${arg} expects a value`
+      );
     }
+
+    layer[key] = coerce(key, args[i + 1]);
+    i++; // skip the next argument
+  }
+
+  return validateLayer(
+    "command line",
+    layer,
+    (key) => CONFIG_SOURCES[key as ConfigKey]?.flag ?? key
+  );
+}
+
+// Unwrap `.optional()`/`.default()` down to the type that is actually validated
+function describeType(schema: z.ZodTypeAny): string {
+  const { typeName } = schema._def as { typeName: z.ZodFirstPartyTypeKind };
+
+  if (
+    typeName === z.ZodFirstPartyTypeKind.ZodDefault ||
+    typeName === z.ZodFirstPartyTypeKind.ZodOptional
+  ) {
+    return describeType(schema._def.innerType as z.ZodTypeAny);
+  }
+
+  if (typeName === z.ZodFirstPartyTypeKind.ZodEnum) {
+    return (schema._def.values as string[]).join("|");
+  }
+
+  if (typeName === z.ZodFirstPartyTypeKind.ZodArray) {
+    return `${describeType(schema._def.type as z.ZodTypeAny)},...`;
   }
 
-  return { transportType: transport, port, authToken };
+  if (typeName === z.ZodFirstPartyTypeKind.ZodNumber) {
+    return "number";
+  }
+
+  return "value";
+}
+
+function formatHelp(): string {
+  const defaults = ConfigSchema.parse({});
+
+  const options = configKeys.map((key) => {
+    const { flag, env, type } = CONFIG_SOURCES[key];
+    const schema = ConfigSchema.shape[key];
+
+    const usage =
+      type === "boolean" ? flag : `${flag} <${describeType(schema)}>`;
+    const defaultValue =
+      defaults[key] === undefined ? "" : ` (default: ${defaults[key]})`;
+
+    return `  ${usage}\n      ${schema.description ?? ""}${defaultValue}\n      env: ${env}`;
+  });
+
+  return [
+    "Usage: Notion-mcp-server [options]",
+    "",
+    "Options (CLI flags override environment variables, which override the config file):",
+    `  ${CONFIG_FLAG} <path>\n      A JSON file with any of the settings below, keyed by name (e.g. "authToken")\n      env: ${CONFIG_ENV}`,
+    ...options,
+    "  --help",
+  ].join("\n");
+}
+
+export function parseArgs() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help")) {
+    console.log(formatHelp());
+    process.exit(0);
+  }
+
+  const configIndex = args.indexOf(CONFIG_FLAG);
+  const configPath =
+    configIndex === -1 ? process.env[CONFIG_ENV] : args[configIndex + 1];
+
+  if (configIndex !== -1 && !configPath) {
+    throw new Error(
+      `Invalid configuration from command line:\n  - ${CONFIG_FLAG} expects a value`
+    );
+  }
+
+  const fileConfig = configPath ? readConfigFile(configPath) : {};
+  const envConfig = readEnv(process.env);
+  const flagConfig = readFlags(args);
+
+  // each layer was validated on its own, this fills in the defaults
+  const config = ConfigSchema.parse({
+    ...fileConfig,
+    ...envConfig,
+    ...flagConfig,
+  });
+
+  return {
+    transportType: config.transport,
+    port: config.port,
+    authToken: config.authToken ?? "",
+    gatewayToken: config.gatewayToken ?? "",
+    multiTenant: config.multiTenant,
+    eventStore: config.eventStore,
+    eventStoreDir: config.eventStoreDir,
+    stateless: config.stateless,
+    logLevel: config.logLevel,
+    readOnly: config.readOnly,
+    tools: config.tools,
+    notionBaseUrl: config.notionBaseUrl,
+    auditLog: config.auditLog,
+    auditRedact: config.auditRedact,
+    auditPrevious: config.auditPrevious,
+  };
 }
@@ -16,19 +16,30 @@ import { randomUUID } from "node:crypto";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { Ajv } from "ajv"; // don't use import Ajv from "ajv"; (TS error)
+import { createSessionRegistry } from "../utils/session-registry.js";
 
 const PORT = 8999;
 
+// idle sessions are closed after 30 minutes, at most 100 sessions per server
+const SESSION_OPTIONS = {
+  idleTtlMs: 30 * 60 * 1000,
+  maxSessions: 100,
+  sweepIntervalMs: 60 * 1000,
+};
+
 const app = express();
 app.use(express.json());
 
-const highLevelSessions = new Map<
-  string,
-  {
-    server: McpServer;
-    transport: StreamableHTTPServerTransport;
-  }
->();
+const highLevelSessions = createSessionRegistry<{
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+}>({
+  ...SESSION_OPTIONS,
+  close: async ({ server, transport }) => {
+    await transport.close();
+    await server.close();
+  },
+});
 
 // 👍 High level server
 function createHighLevelServer() {
@@ -103,6 +114,19 @@ app.post("/mcp/high-level", async (req, res) => {
     server = session.server;
     transport = session.transport;
   } else if (!sid && isInitializeRequest(req.body)) {
+    if (highLevelSessions.isFull()) {
+      highLevelSessions.reject();
+      res.status(503).json({
+        jsonrpc: "2.0",
+        id: null,
+        error: {
+          code: -32000,
+          message: "Service Unavailable: Too many active sessions",
+        },
+      });
+      return;
+    }
+
     transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: randomUUID,
       onsessioninitialized: (_sessionId) => {
@@ -113,6 +137,12 @@ app.post("/mcp/high-level", async (req, res) => {
       },
     });
 
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        highLevelSessions.delete(transport.sessionId);
+      }
+    };
+
     server = createHighLevelServer();
 
     await server.connect(transport);
@@ -134,13 +164,16 @@ app.post("/mcp/high-level", async (req, res) => {
 // ========== END of high level server ==========
 // 🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧🚧
 
-const lowLevelSessions = new Map<
-  string,
-  {
-    server: Server;
-    transport: StreamableHTTPServerTransport;
-  }
->();
+const lowLevelSessions = createSessionRegistry<{
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}>({
+  ...SESSION_OPTIONS,
+  close: async ({ server, transport }) => {
+    await transport.close();
+    await server.close();
+  },
+});
 
 // 👎 Low level server
 function createLowLevelServer() {
@@ -340,6 +373,19 @@ app.post("/mcp/low-level", async (req, res) => {
     server = session.server;
     transport = session.transport;
   } else if (!sid && isInitializeRequest(req.body)) {
+    if (lowLevelSessions.isFull()) {
+      lowLevelSessions.reject();
+      res.status(503).json({
+        jsonrpc: "2.0",
+        id: null,
+        error: {
+          code: -32000,
+          message: "Service Unavailable: Too many active sessions",
+        },
+      });
+      return;
+    }
+
     transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: randomUUID,
       onsessioninitialized: (_sessionId) => {
@@ -350,6 +396,12 @@ app.post("/mcp/low-level", async (req, res) => {
       },
     });
 
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        lowLevelSessions.delete(transport.sessionId);
+      }
+    };
+
     server = createLowLevelServer();
 
     await server.connect(transport);
@@ -368,6 +420,16 @@ app.post("/mcp/low-level", async (req, res) => {
   await transport.handleRequest(req, res, req.body);
 });
 
+app.get("/health", (_req, res) => {
+  res.status(200).json({
+    status: "ok",
+    sessions: {
+      highLevel: highLevelSessions.stats(),
+      lowLevel: lowLevelSessions.stats(),
+    },
+  });
+});
+
 app
   .listen(PORT, () => {
     console.log(`Server is running on port ${PORT} - raw http-stream server`);
@@ -0,0 +1,89 @@
+import { createSessionRegistry } from "./session-registry.js";
+
+describe("createSessionRegistry", () => {
+  const idleTtlMs = 1000;
+
+  let closed: string[];
+  let registry: ReturnType<typeof createSessionRegistry<string>>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    closed = [];
+    registry = createSessionRegistry<string>({
+      idleTtlMs,
+      maxSessions: 10,
+      sweepIntervalMs: 60_000,
+      close: (session) => {
+        closed.push(session);
+      },
+    });
+  });
+
+  afterEach(() => {
+    registry.dispose();
+    jest.useRealTimers();
+  });
+
+  it("evicts sessions idle for longer than the TTL", async () => {
+    registry.set("a", "session a");
+    jest.advanceTimersByTime(idleTtlMs + 1);
+
+    await expect(registry.sweep()).resolves.toBe(1);
+    expect(closed).toEqual(["session a"]);
+    expect(registry.stats().evicted).toBe(1);
+  });
+
+  it("keeps sessions with an open request, however long it runs", async () => {
+    registry.set("a", "session a");
+    const release = registry.track("a");
+    jest.advanceTimersByTime(idleTtlMs * 10);
+
+    await expect(registry.sweep()).resolves.toBe(0);
+
+    // idle again from the moment the request ends
+    release();
+    jest.advanceTimersByTime(idleTtlMs);
+    await expect(registry.sweep()).resolves.toBe(0);
+
+    jest.advanceTimersByTime(1);
+    await expect(registry.sweep()).resolves.toBe(1);
+  });
+
+  it("counts a released request once", async () => {
+    registry.set("a", "session a");
+    const first = registry.track("a");
+    const second = registry.track("a");
+
+    first();
+    first();
+    jest.advanceTimersByTime(idleTtlMs + 1);
+
+    await expect(registry.sweep()).resolves.toBe(0);
+
+    second();
+    jest.advanceTimersByTime(idleTtlMs + 1);
+    await expect(registry.sweep()).resolves.toBe(1);
+  });
+
+  it("reports a failed close to onError", async () => {
+    const onError = jest.fn();
+    const failing = createSessionRegistry<string>({
+      idleTtlMs,
+      maxSessions: 10,
+      sweepIntervalMs: 60_000,
+      close: () => {
+        throw new Error("boom");
+      },
+      onError,
+    });
+
+    failing.set("a", "session a");
+    await failing.evict("a");
+    failing.dispose();
+
+    expect(onError).toHaveBeenCalledWith("Failed to close evicted session", {
+      sessionId: "a",
+      error: "Error: boom",
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * A session map for Streamable HTTP servers that does not grow forever:
+ * - sessions idle for longer than `idleTtlMs` are closed by a periodic sweep; a session
+ *   with a request still open (`track`), e.g. a GET stream or a long tool call, is never idle
+ * - `isFull()` lets the caller reject new sessions once `maxSessions` is reached
+ * - `stats()` exposes the counters for health checks
+ */
+
+export type SessionRegistryOptions<T> = {
+  idleTtlMs: number;
+  maxSessions: number;
+  sweepIntervalMs: number;
+  // release everything the session holds, e.g. the MCP server and its transport
+  close: (session: T, sessionId: string) => void | Promise<void>;
+  // where eviction and sweep failures are reported, `console.error` by default
+  onError?: (message: string, context: Record<string, unknown>) => void;
+};
+
+export type SessionRegistryStats = {
+  active: number;
+  maxSessions: number;
+  idleTtlMs: number;
+  created: number;
+  evicted: number;
+  rejected: number;
+};
+
+export function createSessionRegistry<T>(options: SessionRegistryOptions<T>) {
+  const {
+    idleTtlMs,
+    maxSessions,
+    sweepIntervalMs,
+    close,
+    onError = (message, context) => console.error(message, context),
+  } = options;
+
+  const sessions = new Map<
+    string,
+    { session: T; lastActiveAt: number; openRequests: number }
+  >();
+
+  let created = 0;
+  let evicted = 0;
+  let rejected = 0;
+
+  function get(sessionId: string): T | undefined {
+    const entry = sessions.get(sessionId);
+
+    if (entry) {
+      entry.lastActiveAt = Date.now();
+    }
+
+    return entry?.session;
+  }
+
+  function set(sessionId: string, session: T) {
+    sessions.set(sessionId, {
+      session,
+      lastActiveAt: Date.now(),
+      openRequests: 0,
+    });
+    created++;
+  }
+
+  /**
+   * Call when a request of the session starts, and the returned function when its
+   * response ends: the session counts as active for as long as the response is open.
+   */
+  function track(sessionId: string): () => void {
+    const entry = sessions.get(sessionId);
+
+    if (!entry) {
+      return () => undefined;
+    }
+
+    entry.openRequests++;
+    entry.lastActiveAt = Date.now();
+
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+      entry.openRequests--;
+      entry.lastActiveAt = Date.now();
+    };
+  }
+
+  function remove(sessionId: string): boolean {
+    return sessions.delete(sessionId);
+  }
+
+  function isFull(): boolean {
+    return sessions.size >= maxSessions;
+  }
+
+  // Call when a new session is turned away because the registry is full
+  function reject() {
+    rejected++;
+  }
+
+  async function evict(sessionId: string) {
+    const entry = sessions.get(sessionId);
+
+    if (!entry) {
+      return;
+    }
+
+    // removed first so the transport's `onclose` finds nothing left to delete
+    sessions.delete(sessionId);
+    evicted++;
+
+    try {
+      await close(entry.session, sessionId);
+    } catch (error) {
+      onError("Failed to close evicted session", {
+        sessionId,
+        error: String(error),
+      });
+    }
+  }
+
+  async function sweep(): Promise<number> {
+    const now = Date.now();
+
+    const expired = [...sessions.entries()]
+      .filter(
+        ([, { lastActiveAt, openRequests }]) =>
+          openRequests === 0 && now - lastActiveAt > idleTtlMs
+      )
+      .map(([sessionId]) => sessionId);
+
+    await Promise.all(expired.map(evict));
+
+    return expired.length;
+  }
+
+  const timer = setInterval(() => {
+    sweep().catch((error) => {
+      onError("Session sweep failed", { error: String(error) });
+    });
+  }, sweepIntervalMs);
+
+  // the sweep alone should not keep the process alive
+  timer.unref();
+
+  function stats(): SessionRegistryStats {
+    return {
+      active: sessions.size,
+      maxSessions,
+      idleTtlMs,
+      created,
+      evicted,
+      rejected,
+    };
+  }
+
+  function entries(): [string, T][] {
+    return [...sessions.entries()].map(([sessionId, { session }]) => [
+      sessionId,
+      session,
+    ]);
+  }
+
+  // Stop sweeping; the sessions themselves are left to the caller
+  function dispose() {
+    clearInterval(timer);
+  }
+
+  return {
+    get,
+    set,
+    track,
+    delete: remove,
+    isFull,
+    reject,
+    evict,
+    sweep,
+    stats,
+    entries,
+    dispose,
+  };
+}
+
+export type SessionRegistry<T> = ReturnType<typeof createSessionRegistry<T>>;